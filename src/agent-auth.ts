@@ -0,0 +1,107 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { FETCH_TIMEOUT_MS, NANO_API_URL, nanoHeaders } from './notifications';
+
+// Identifies the agent behind an MCP bearer token. By default NanoFleet, which
+// issues a token to each agent, is asked; for standalone use, tokens can be
+// listed locally in MCP_AGENT_TOKENS as "agentId=token,agentId=token".
+
+export type AgentVerifier = 'nanofleet' | 'local';
+const AGENT_VERIFIERS: AgentVerifier[] = ['nanofleet', 'local'];
+
+export const MCP_AUTH_VERIFIER = (process.env.MCP_AUTH_VERIFIER ??
+	'nanofleet') as AgentVerifier;
+if (!AGENT_VERIFIERS.includes(MCP_AUTH_VERIFIER)) {
+	throw new Error(`MCP_AUTH_VERIFIER must be one of ${AGENT_VERIFIERS}`);
+}
+
+const NANO_VERIFY_URL =
+	process.env.MCP_TOKEN_VERIFY_URL ??
+	`${NANO_API_URL}/internal/agents/verify-token`;
+
+export interface VerifiedAgent {
+	id: string;
+	name: string | null;
+}
+
+function hashToken(token: string): Buffer {
+	return createHash('sha256').update(token).digest();
+}
+
+// agentId by token hash; hashing first keeps the comparison constant-time
+function parseLocalTokens(value: string): { agentId: string; hash: Buffer }[] {
+	return value
+		.split(',')
+		.map((entry) => entry.trim())
+		.filter(Boolean)
+		.map((entry) => {
+			const separator = entry.indexOf('=');
+			const agentId = entry.slice(0, separator).trim();
+			const token = entry.slice(separator + 1).trim();
+			if (separator <= 0 || !token) {
+				throw new Error(
+					'MCP_AGENT_TOKENS entries must look like "agentId=token"',
+				);
+			}
+			return { agentId, hash: hashToken(token) };
+		});
+}
+
+const localTokens =
+	MCP_AUTH_VERIFIER === 'local'
+		? parseLocalTokens(process.env.MCP_AGENT_TOKENS ?? '')
+		: [];
+if (MCP_AUTH_VERIFIER === 'local' && localTokens.length === 0) {
+	throw new Error(
+		'MCP_AGENT_TOKENS must list at least one agent when MCP_AUTH_VERIFIER=local',
+	);
+}
+
+function verifyLocalToken(token: string): VerifiedAgent | null {
+	const hash = hashToken(token);
+	const match = localTokens.find((t) => timingSafeEqual(t.hash, hash));
+	return match ? { id: match.agentId, name: null } : null;
+}
+
+// Any answer other than a valid agent, including NanoFleet being down, rejects
+// the caller
+async function verifyNanoFleetToken(
+	token: string,
+): Promise<VerifiedAgent | null> {
+	try {
+		const res = await fetch(NANO_VERIFY_URL, {
+			method: 'POST',
+			headers: nanoHeaders(),
+			body: JSON.stringify({ token }),
+			signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+		});
+		if (!res.ok) return null;
+		const data = (await res.json()) as {
+			agent?: { id?: unknown; name?: unknown };
+		};
+		const id = data.agent?.id;
+		if (typeof id !== 'string' || !id) return null;
+		const name = data.agent?.name;
+		return { id, name: typeof name === 'string' ? name : null };
+	} catch (err) {
+		console.warn('[MCP] Token verification failed:', err);
+		return null;
+	}
+}
+
+export function verifyAgentToken(token: string): Promise<VerifiedAgent | null> {
+	if (MCP_AUTH_VERIFIER === 'local') {
+		return Promise.resolve(verifyLocalToken(token));
+	}
+	return verifyNanoFleetToken(token);
+}
+
+export function bearerToken(req: Request): string | null {
+	const match = req.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i);
+	return match ? match[1].trim() : null;
+}
+
+// Sessions remember the hash of the token that opened them, so a session ID
+// alone is not enough to act as the agent
+export function tokenFingerprint(token: string): string {
+	return hashToken(token).toString('hex');
+}
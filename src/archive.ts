@@ -0,0 +1,71 @@
+import { publishTaskUpdated } from './board-events';
+import {
+	type Actor,
+	dropTaskPendingNotifications,
+	getArchivableTasks,
+	getTaskSubtree,
+	recordTaskEvent,
+	SYSTEM_ACTOR,
+	setTaskArchived,
+} from './db';
+
+// Archiving hides a task and its subtasks from the board and the agents'
+// lists without deleting anything; unarchiving brings them back as they were.
+// Done tasks are archived on their own after AUTO_ARCHIVE_DAYS. Only archived
+// tasks can be deleted for good.
+
+const ARCHIVE_CHECK_INTERVAL_MS = 60 * 60_000;
+const DAY_MS = 24 * 60 * 60_000;
+
+// 0 turns auto-archiving off
+const autoArchiveDays = Number(process.env.AUTO_ARCHIVE_DAYS ?? 30);
+if (!Number.isFinite(autoArchiveDays) || autoArchiveDays < 0) {
+	throw new Error('AUTO_ARCHIVE_DAYS must be a number of days');
+}
+
+// Returns the IDs of the tasks that changed: the task first, then those of
+// its subtasks that were not in that state yet. Pushes still queued about
+// archived tasks are dropped.
+function setSubtreeArchived(
+	taskId: string,
+	archived: boolean,
+	actor: Actor,
+	payload: Record<string, unknown>,
+): string[] {
+	const now = Date.now();
+	const changed = getTaskSubtree(taskId)
+		.filter((task) => setTaskArchived(task.id, archived ? now : null))
+		.map((task) => task.id);
+	for (const id of changed) {
+		if (archived) dropTaskPendingNotifications(id);
+		recordTaskEvent(id, archived ? 'archived' : 'unarchived', actor, {
+			payload: id === taskId ? payload : { ...payload, withParent: taskId },
+		});
+	}
+	publishTaskUpdated(...changed);
+	return changed;
+}
+
+export function archiveTask(
+	taskId: string,
+	actor: Actor,
+	payload: Record<string, unknown> = {},
+): string[] {
+	return setSubtreeArchived(taskId, true, actor, payload);
+}
+
+export function unarchiveTask(taskId: string, actor: Actor): string[] {
+	return setSubtreeArchived(taskId, false, actor, {});
+}
+
+export function archiveDoneTasks(now = Date.now()) {
+	if (autoArchiveDays === 0) return;
+	for (const task of getArchivableTasks(now - autoArchiveDays * DAY_MS)) {
+		archiveTask(task.id, SYSTEM_ACTOR, { afterDays: autoArchiveDays });
+	}
+}
+
+export function startAutoArchive() {
+	archiveDoneTasks();
+	setInterval(() => archiveDoneTasks(), ARCHIVE_CHECK_INTERVAL_MS);
+}
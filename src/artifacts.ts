@@ -0,0 +1,117 @@
+import { createHash } from 'node:crypto';
+import { realpath, stat } from 'node:fs/promises';
+import { isAbsolute, join, relative, resolve, sep } from 'node:path';
+
+// Files agents attach to their results. They live in the shared volume under
+// /shared/tasks/{taskId}/; paths are stored relative to that directory and
+// checked again, symlinks included, every time a file is served.
+
+export const SHARED_DIR = process.env.SHARED_DIR ?? '/shared';
+export const MAX_ARTIFACTS_PER_RESULT = 20;
+
+// Types a browser may render in place; anything else is sent as a download
+// so an agent-written HTML or SVG file cannot run script on the board's origin
+const INLINE_MIME_TYPES = new Set([
+	'image/png',
+	'image/jpeg',
+	'image/gif',
+	'image/webp',
+	'text/plain',
+	'text/markdown',
+	'text/csv',
+	'application/json',
+	'application/pdf',
+]);
+
+export interface ArtifactFile {
+	// Relative to the task directory, with forward slashes
+	path: string;
+	absolutePath: string;
+	size: number;
+	mimeType: string;
+	sha256: string;
+}
+
+export function taskArtifactDir(taskId: string): string {
+	return join(SHARED_DIR, 'tasks', taskId);
+}
+
+function isInside(dir: string, target: string): boolean {
+	const rel = relative(dir, target);
+	return rel !== '' && !rel.startsWith('..') && !isAbsolute(rel);
+}
+
+// Resolves a path given by an agent (absolute, or relative to the task
+// directory) to a regular file inside that directory. Returns an error message
+// when the path escapes the directory or the file does not exist.
+export async function resolveArtifactPath(
+	taskId: string,
+	filePath: string,
+): Promise<{ path: string; absolutePath: string } | string> {
+	const dir = taskArtifactDir(taskId);
+	const target = resolve(dir, filePath);
+	if (!isInside(dir, target)) {
+		return `"${filePath}" is outside ${dir}/`;
+	}
+
+	let realDir: string;
+	let realTarget: string;
+	try {
+		realDir = await realpath(dir);
+		realTarget = await realpath(target);
+	} catch {
+		return `"${filePath}" does not exist`;
+	}
+	// A symlink may point out of the task directory
+	if (!isInside(realDir, realTarget)) {
+		return `"${filePath}" is outside ${dir}/`;
+	}
+	const info = await stat(realTarget);
+	if (!info.isFile()) return `"${filePath}" is not a regular file`;
+
+	return {
+		path: relative(dir, target).split(sep).join('/'),
+		absolutePath: realTarget,
+	};
+}
+
+async function hashFile(absolutePath: string): Promise<string> {
+	const hash = createHash('sha256');
+	for await (const chunk of Bun.file(absolutePath).stream()) {
+		hash.update(chunk);
+	}
+	return hash.digest('hex');
+}
+
+export function artifactMimeType(absolutePath: string): string {
+	// Bun.file().type may carry a charset parameter
+	return Bun.file(absolutePath).type.split(';')[0];
+}
+
+export function isInlineMimeType(mimeType: string): boolean {
+	return INLINE_MIME_TYPES.has(mimeType);
+}
+
+// Validates every path before anything is recorded, so a result is never
+// saved with only some of its files
+export async function inspectArtifacts(
+	taskId: string,
+	filePaths: string[],
+): Promise<ArtifactFile[] | string> {
+	if (filePaths.length > MAX_ARTIFACTS_PER_RESULT) {
+		return `At most ${MAX_ARTIFACTS_PER_RESULT} files can be attached to a result`;
+	}
+	const files: ArtifactFile[] = [];
+	for (const filePath of filePaths) {
+		const resolved = await resolveArtifactPath(taskId, filePath);
+		if (typeof resolved === 'string') return resolved;
+		if (files.some((f) => f.path === resolved.path)) continue;
+		files.push({
+			...resolved,
+			size: Bun.file(resolved.absolutePath).size,
+			mimeType: artifactMimeType(resolved.absolutePath),
+			sha256: await hashFile(resolved.absolutePath),
+		});
+	}
+	return files;
+}
@@ -0,0 +1,119 @@
+import { randomUUID } from 'node:crypto';
+import {
+	getTask,
+	type NotificationRow,
+	type TaskCommentRow,
+	type TaskResultRow,
+} from './db';
+import { buildTaskSummary } from './task-views';
+
+// In-process feed of board changes, streamed to the UI over SSE by GET /events.
+// Event IDs are "<boot>:<seq>" so a client resuming after a restart can tell
+// that the events it missed are gone and it must reload instead.
+
+export type BoardEventType =
+	| 'task.created'
+	| 'task.updated'
+	| 'task.deleted'
+	| 'comment.created'
+	| 'result.created'
+	| 'notification.updated';
+
+export interface BoardEvent {
+	id: string;
+	type: BoardEventType;
+	data: unknown;
+	created_at: number;
+}
+
+type Listener = (event: BoardEvent) => void;
+
+const BUFFER_SIZE = 1000;
+const BOOT_ID = randomUUID().slice(0, 8);
+
+let seq = 0;
+const buffer: BoardEvent[] = [];
+const listeners = new Set<Listener>();
+
+export function publishBoardEvent(
+	type: BoardEventType,
+	data: unknown,
+): BoardEvent {
+	const event: BoardEvent = {
+		id: `${BOOT_ID}:${++seq}`,
+		type,
+		data,
+		created_at: Date.now(),
+	};
+	buffer.push(event);
+	if (buffer.length > BUFFER_SIZE) buffer.shift();
+
+	for (const listener of listeners) {
+		try {
+			listener(event);
+		} catch (err) {
+			console.warn('[events] Listener failed:', err);
+		}
+	}
+	return event;
+}
+
+export function subscribeBoardEvents(listener: Listener): () => void {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+// Events published after `lastEventId`, or null when they can no longer be
+// replayed (unknown ID, previous process, or dropped from the buffer).
+export function getBoardEventsSince(lastEventId: string): BoardEvent[] | null {
+	const [boot, rawSeq] = lastEventId.split(':');
+	const lastSeq = Number(rawSeq);
+	if (boot !== BOOT_ID || !Number.isInteger(lastSeq) || lastSeq > seq) {
+		return null;
+	}
+
+	const oldest = buffer[0];
+	const oldestSeq = oldest ? Number(oldest.id.split(':')[1]) : seq + 1;
+	if (lastSeq + 1 < oldestSeq) return null;
+
+	return buffer.filter((e) => Number(e.id.split(':')[1]) > lastSeq);
+}
+
+// ---------------------------------------------------------------------------
+// Publishing helpers
+// ---------------------------------------------------------------------------
+
+export function publishTaskCreated(taskId: string) {
+	const task = getTask(taskId);
+	if (task) publishBoardEvent('task.created', { task: buildTaskSummary(task) });
+}
+
+export function publishTaskUpdated(...taskIds: string[]) {
+	for (const taskId of new Set(taskIds)) {
+		const task = getTask(taskId);
+		if (task) {
+			publishBoardEvent('task.updated', { task: buildTaskSummary(task) });
+		}
+	}
+}
+
+export function publishTaskDeleted(taskId: string) {
+	publishBoardEvent('task.deleted', { id: taskId });
+}
+
+export function publishComment(comment: TaskCommentRow) {
+	publishBoardEvent('comment.created', { taskId: comment.task_id, comment });
+}
+
+export function publishResult(result: TaskResultRow) {
+	publishBoardEvent('result.created', { taskId: result.task_id, result });
+}
+
+export function publishNotification(notification: NotificationRow) {
+	publishBoardEvent('notification.updated', {
+		taskId: notification.task_id,
+		notification,
+	});
+}
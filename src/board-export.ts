@@ -0,0 +1,600 @@
+import { randomUUID } from 'node:crypto';
+import {
+	type ActorType,
+	type BoardColumn,
+	type BoardRow,
+	DEFAULT_BOARD_ID,
+	getBoard,
+	getBoardByName,
+	getDb,
+	getExistingTaskIds,
+	getTaskRecords,
+	insertBoard,
+	listBoards,
+	setTaskLinks,
+	TASK_EVENT_KINDS,
+	TASK_PRIORITIES,
+	type TaskEventKind,
+	type TaskPriority,
+	type TaskRecord,
+	type TaskStatus,
+	writeTaskRecord,
+} from './db';
+import { getMigrationStatus } from './migrations';
+import { parseBoardColumns, TASK_STATUSES } from './workflow';
+
+// Board export (JSON with every task row, or a flat CSV task list) and the
+// matching JSON import. Artifact files stay in /shared; only their metadata
+// travels with the export.
+
+export const EXPORT_FORMAT = 'nanofleet-tasks-export';
+const EXPORT_VERSION = 1;
+
+export type ImportConflictStrategy = 'fail' | 'skip' | 'overwrite' | 'new_ids';
+export const IMPORT_CONFLICT_STRATEGIES: ImportConflictStrategy[] = [
+	'fail',
+	'skip',
+	'overwrite',
+	'new_ids',
+];
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+// Children are nested under their task, without the repeated task_id
+function exportTask(record: TaskRecord) {
+	const strip = <T extends { task_id: string }>({ task_id: _, ...rest }: T) =>
+		rest;
+	return {
+		...record.task,
+		assignees: record.assignees.map(strip),
+		labels: record.labels,
+		capabilities: record.capabilities,
+		blocked_by: record.blockedBy,
+		comments: record.comments.map(strip),
+		results: record.results.map(strip),
+		artifacts: record.artifacts.map(strip),
+		events: record.events.map(strip),
+	};
+}
+
+export type ExportedTask = ReturnType<typeof exportTask>;
+
+function exportBoardRow(board: BoardRow) {
+	return {
+		...board,
+		columns: JSON.parse(board.columns) as BoardColumn[],
+		default_assignee_ids: JSON.parse(board.default_assignee_ids) as string[],
+	};
+}
+
+export type ExportedBoard = ReturnType<typeof exportBoardRow>;
+
+export interface BoardExport {
+	boards: ExportedBoard[];
+	tasks: ExportedTask[];
+}
+
+export function exportBoard() {
+	return {
+		format: EXPORT_FORMAT,
+		version: EXPORT_VERSION,
+		schemaVersion: getMigrationStatus(getDb()).currentVersion,
+		exportedAt: Date.now(),
+		boards: listBoards().map(exportBoardRow),
+		tasks: getTaskRecords().map(exportTask),
+	};
+}
+
+const CSV_COLUMNS = [
+	'id',
+	'title',
+	'description',
+	'status',
+	'priority',
+	'due_at',
+	'labels',
+	'capabilities',
+	'assignees',
+	'blocked_by',
+	'parent_id',
+	'review_quorum',
+	'created_at',
+	'updated_at',
+	'archived_at',
+] as const;
+
+function csvCell(value: string | number | null): string {
+	if (value === null) return '';
+	let text = String(value);
+	// Spreadsheets would run a cell starting with these as a formula
+	if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function isoDate(ts: number | null): string | null {
+	return ts === null ? null : new Date(ts).toISOString();
+}
+
+// One row per task; lists are joined with "; " and dates are ISO 8601
+export function exportBoardCsv(): string {
+	const rows = getTaskRecords().map(({ task, ...rest }) => {
+		const values: Record<(typeof CSV_COLUMNS)[number], string | number | null> =
+			{
+				id: task.id,
+				title: task.title,
+				description: task.description,
+				status: task.status,
+				priority: task.priority,
+				due_at: isoDate(task.due_at),
+				labels: rest.labels.join('; '),
+				capabilities: rest.capabilities.join('; '),
+				assignees: rest.assignees.map((a) => a.agent_id).join('; '),
+				blocked_by: rest.blockedBy.join('; '),
+				parent_id: task.parent_id,
+				review_quorum: task.review_quorum,
+				created_at: isoDate(task.created_at),
+				updated_at: isoDate(task.updated_at),
+				archived_at: isoDate(task.archived_at),
+			};
+		return CSV_COLUMNS.map((column) => csvCell(values[column])).join(',');
+	});
+	return `${[CSV_COLUMNS.join(','), ...rows].join('\r\n')}\r\n`;
+}
+
+// ---------------------------------------------------------------------------
+// Import validation
+// ---------------------------------------------------------------------------
+
+type FieldType = 'string' | 'string?' | 'number' | 'number?';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkFields(
+	value: unknown,
+	fields: Record<string, FieldType>,
+	path: string,
+): string | null {
+	if (!isRecord(value)) return `${path} must be an object`;
+	for (const [name, type] of Object.entries(fields)) {
+		const v = value[name];
+		const optional = type.endsWith('?');
+		if (optional && (v === null || v === undefined)) continue;
+		const ok = type.startsWith('string')
+			? typeof v === 'string'
+			: typeof v === 'number' && Number.isFinite(v);
+		if (!ok) {
+			return `${path}.${name} must be a ${type.replace('?', '')}${optional ? ' or null' : ''}`;
+		}
+	}
+	return null;
+}
+
+function checkEnum<T extends string>(
+	value: unknown,
+	allowed: readonly T[],
+	path: string,
+	optional = false,
+): string | null {
+	if (optional && (value === null || value === undefined)) return null;
+	return allowed.includes(value as T)
+		? null
+		: `${path} must be one of ${allowed.join(', ')}`;
+}
+
+function checkList(
+	task: Record<string, unknown>,
+	name: string,
+	path: string,
+	check: (item: unknown, itemPath: string) => string | null,
+): string | null {
+	const list = task[name] ?? [];
+	if (!Array.isArray(list)) return `${path}.${name} must be an array`;
+	for (const [i, item] of list.entries()) {
+		const error = check(item, `${path}.${name}[${i}]`);
+		if (error) return error;
+	}
+	return null;
+}
+
+const ACTOR_TYPES: ActorType[] = ['agent', 'human', 'system'];
+
+function checkTask(value: unknown, path: string): string | null {
+	const error = checkFields(
+		value,
+		{
+			id: 'string',
+			title: 'string',
+			description: 'string?',
+			parent_id: 'string?',
+			board_id: 'string?',
+			review_quorum: 'number?',
+			due_at: 'number?',
+			overdue_notified_at: 'number?',
+			stale_reminded_at: 'number?',
+			stale_flagged_at: 'number?',
+			claimed_by: 'string?',
+			claimed_at: 'number?',
+			archived_at: 'number?',
+			created_at: 'number',
+			updated_at: 'number',
+		},
+		path,
+	);
+	if (error) return error;
+	const task = value as Record<string, unknown>;
+	return (
+		checkEnum(task.status, TASK_STATUSES, `${path}.status`) ??
+		checkEnum(task.priority, TASK_PRIORITIES, `${path}.priority`, true) ??
+		checkList(
+			task,
+			'assignees',
+			path,
+			(a, p) =>
+				checkFields(a, { agent_id: 'string', updated_at: 'number?' }, p) ??
+				checkEnum(
+					(a as Record<string, unknown>).status,
+					TASK_STATUSES,
+					`${p}.status`,
+				),
+		) ??
+		checkList(task, 'labels', path, (l, p) =>
+			typeof l === 'string' ? null : `${p} must be a string`,
+		) ??
+		checkList(task, 'capabilities', path, (c, p) =>
+			typeof c === 'string' ? null : `${p} must be a string`,
+		) ??
+		checkList(task, 'blocked_by', path, (id, p) =>
+			typeof id === 'string' ? null : `${p} must be a task ID`,
+		) ??
+		checkList(
+			task,
+			'comments',
+			path,
+			(c, p) =>
+				checkFields(
+					c,
+					{
+						id: 'string',
+						author_id: 'string',
+						author_name: 'string',
+						content: 'string',
+						created_at: 'number',
+					},
+					p,
+				) ??
+				checkEnum(
+					(c as Record<string, unknown>).author_type,
+					['agent', 'human'] as const,
+					`${p}.author_type`,
+				),
+		) ??
+		checkList(task, 'results', path, (r, p) =>
+			checkFields(
+				r,
+				{
+					id: 'string',
+					agent_id: 'string',
+					content: 'string',
+					file_path: 'string?',
+					created_at: 'number',
+				},
+				p,
+			),
+		) ??
+		checkList(task, 'artifacts', path, (a, p) =>
+			checkFields(
+				a,
+				{
+					id: 'string',
+					result_id: 'string',
+					path: 'string',
+					size: 'number',
+					mime_type: 'string',
+					sha256: 'string',
+					created_at: 'number',
+				},
+				p,
+			),
+		) ??
+		checkList(task, 'events', path, (e, p) => {
+			const event = e as Record<string, unknown>;
+			return (
+				checkFields(
+					e,
+					{
+						id: 'string',
+						actor_id: 'string',
+						actor_name: 'string',
+						created_at: 'number',
+					},
+					p,
+				) ??
+				checkEnum(event.kind, TASK_EVENT_KINDS, `${p}.kind`) ??
+				checkEnum(event.actor_type, ACTOR_TYPES, `${p}.actor_type`) ??
+				checkEnum(event.from_status, TASK_STATUSES, `${p}.from_status`, true) ??
+				checkEnum(event.to_status, TASK_STATUSES, `${p}.to_status`, true) ??
+				(event.payload === null ||
+				event.payload === undefined ||
+				isRecord(event.payload)
+					? null
+					: `${p}.payload must be an object or null`)
+			);
+		})
+	);
+}
+
+function checkBoard(value: unknown, path: string): string | null {
+	const error = checkFields(
+		value,
+		{
+			id: 'string',
+			name: 'string',
+			description: 'string?',
+			created_at: 'number',
+			updated_at: 'number',
+		},
+		path,
+	);
+	if (error) return error;
+	const board = value as Record<string, unknown>;
+	const columns = parseBoardColumns(board.columns);
+	if (typeof columns === 'string') return `${path}.${columns}`;
+	const assignees = board.default_assignee_ids ?? [];
+	return Array.isArray(assignees) &&
+		assignees.every((id) => typeof id === 'string')
+		? null
+		: `${path}.default_assignee_ids must be an array of agent IDs`;
+}
+
+// Returns the boards and tasks of an export, or an error message. Exports
+// made before boards existed have no boards; their tasks go to the default
+// board.
+export function parseBoardExport(body: unknown): BoardExport | string {
+	if (!isRecord(body) || body.format !== EXPORT_FORMAT) {
+		return `The body must be a "${EXPORT_FORMAT}" document, as returned by GET /export`;
+	}
+	if (body.version !== EXPORT_VERSION) {
+		return `Unsupported export version ${String(body.version)}`;
+	}
+	const boards = body.boards ?? [];
+	if (!Array.isArray(boards)) return 'boards must be an array';
+	for (const [i, board] of boards.entries()) {
+		const error = checkBoard(board, `boards[${i}]`);
+		if (error) return error;
+	}
+	if (!Array.isArray(body.tasks)) return 'tasks must be an array';
+
+	const ids = new Set<string>();
+	for (const [i, task] of body.tasks.entries()) {
+		const error = checkTask(task, `tasks[${i}]`);
+		if (error) return error;
+		const id = (task as ExportedTask).id;
+		if (ids.has(id)) return `Task ${id} appears more than once`;
+		ids.add(id);
+	}
+	return {
+		boards: boards as ExportedBoard[],
+		tasks: body.tasks as ExportedTask[],
+	};
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+export interface ImportSummary {
+	dryRun: boolean;
+	onConflict: ImportConflictStrategy;
+	created: string[];
+	overwritten: string[];
+	skipped: string[];
+	createdBoards: string[];
+	// References to tasks that are neither imported nor on the board
+	droppedLinks: {
+		taskId: string;
+		field: 'parent_id' | 'blocked_by';
+		ref: string;
+	}[];
+}
+
+export class ImportConflictError extends Error {
+	constructor(readonly taskIds: string[]) {
+		super(`${taskIds.length} task(s) already exist`);
+	}
+}
+
+// Thrown inside the transaction to roll a dry run back
+class DryRunRollback extends Error {}
+
+function toRecord(
+	task: ExportedTask,
+	id: (oldId: string) => string,
+	boardId: string,
+): TaskRecord {
+	const resultIds = new Map(task.results.map((r) => [r.id, id(r.id)]));
+	const taskId = id(task.id);
+	return {
+		task: {
+			id: taskId,
+			title: task.title,
+			description: task.description ?? null,
+			status: task.status as TaskStatus,
+			parent_id: null,
+			board_id: boardId,
+			review_quorum: task.review_quorum ?? null,
+			priority: (task.priority ?? 'normal') as TaskPriority,
+			due_at: task.due_at ?? null,
+			overdue_notified_at: task.overdue_notified_at ?? null,
+			stale_reminded_at: task.stale_reminded_at ?? null,
+			stale_flagged_at: task.stale_flagged_at ?? null,
+			claimed_by: task.claimed_by ?? null,
+			claimed_at: task.claimed_at ?? null,
+			archived_at: task.archived_at ?? null,
+			created_at: task.created_at,
+			updated_at: task.updated_at,
+		},
+		assignees: (task.assignees ?? []).map((a) => ({
+			...a,
+			task_id: taskId,
+			updated_at: a.updated_at ?? null,
+		})),
+		labels: [...new Set(task.labels ?? [])],
+		capabilities: [...new Set(task.capabilities ?? [])],
+		blockedBy: [],
+		comments: (task.comments ?? []).map((c) => ({
+			...c,
+			id: id(c.id),
+			task_id: taskId,
+		})),
+		results: (task.results ?? []).map((r) => ({
+			...r,
+			id: resultIds.get(r.id) ?? r.id,
+			task_id: taskId,
+			file_path: r.file_path ?? null,
+		})),
+		artifacts: (task.artifacts ?? []).map((a) => ({
+			...a,
+			id: id(a.id),
+			task_id: taskId,
+			result_id: resultIds.get(a.result_id) ?? a.result_id,
+		})),
+		events: (task.events ?? []).map((e) => ({
+			...e,
+			id: id(e.id),
+			task_id: taskId,
+			kind: e.kind as TaskEventKind,
+			from_status: e.from_status ?? null,
+			to_status: e.to_status ?? null,
+			payload: e.payload ?? null,
+		})),
+	};
+}
+
+// Boards are matched by ID, then by name, and created when neither is on the
+// server; existing boards are left as they are. Returns the board each
+// imported board ID maps to.
+function importBoards(
+	boards: ExportedBoard[],
+	summary: ImportSummary,
+): Map<string, string> {
+	const boardIds = new Map<string, string>();
+	for (const board of boards) {
+		const match = getBoard(board.id) ?? getBoardByName(board.name);
+		if (match) {
+			boardIds.set(board.id, match.id);
+			continue;
+		}
+		insertBoard({
+			id: board.id,
+			name: board.name,
+			description: board.description ?? null,
+			columns: JSON.stringify(board.columns),
+			default_assignee_ids: JSON.stringify(board.default_assignee_ids ?? []),
+			created_at: board.created_at,
+			updated_at: board.updated_at,
+		});
+		boardIds.set(board.id, board.id);
+		summary.createdBoards.push(board.id);
+	}
+	// Tasks may belong to boards that are on the server but not in the export
+	for (const board of listBoards()) {
+		if (!boardIds.has(board.id)) boardIds.set(board.id, board.id);
+	}
+	return boardIds;
+}
+
+// Imports the tasks in one transaction. Conflicts are tasks whose ID is
+// already on the board; with new_ids every imported row gets a fresh ID and
+// links between imported tasks follow. A dry run does the same work and
+// rolls it back. Throws ImportConflictError for conflicts under 'fail'.
+export function importBoard(
+	{ boards, tasks }: BoardExport,
+	{
+		onConflict,
+		dryRun,
+	}: { onConflict: ImportConflictStrategy; dryRun: boolean },
+): ImportSummary {
+	const existing =
+		onConflict === 'new_ids'
+			? new Set<string>()
+			: getExistingTaskIds(tasks.map((t) => t.id));
+	if (onConflict === 'fail' && existing.size > 0) {
+		throw new ImportConflictError([...existing]);
+	}
+
+	const idMap = new Map<string, string>();
+	const newId = (oldId: string) => {
+		if (onConflict !== 'new_ids') return oldId;
+		const id = idMap.get(oldId) ?? randomUUID();
+		idMap.set(oldId, id);
+		return id;
+	};
+
+	const summary: ImportSummary = {
+		dryRun,
+		onConflict,
+		created: [],
+		overwritten: [],
+		skipped: [],
+		createdBoards: [],
+		droppedLinks: [],
+	};
+	const toImport = tasks.filter((t) => {
+		if (onConflict === 'skip' && existing.has(t.id)) {
+			summary.skipped.push(t.id);
+			return false;
+		}
+		return true;
+	});
+	// Links may point to imported tasks or to tasks already on the board
+	const known = new Set(toImport.map((t) => newId(t.id)));
+	const resolveLink = (ref: string) => {
+		const id = onConflict === 'new_ids' ? idMap.get(ref) : ref;
+		if (id && known.has(id)) return id;
+		return getExistingTaskIds([ref]).has(ref) ? ref : null;
+	};
+
+	try {
+		getDb().transaction(() => {
+			const boardIds = importBoards(boards, summary);
+			for (const task of toImport) {
+				const replace = existing.has(task.id);
+				const boardId =
+					boardIds.get(task.board_id ?? DEFAULT_BOARD_ID) ?? DEFAULT_BOARD_ID;
+				const record = toRecord(task, newId, boardId);
+				writeTaskRecord(record, replace);
+				(replace ? summary.overwritten : summary.created).push(record.task.id);
+			}
+			for (const task of toImport) {
+				const parentId = task.parent_id ? resolveLink(task.parent_id) : null;
+				if (task.parent_id && !parentId) {
+					summary.droppedLinks.push({
+						taskId: task.id,
+						field: 'parent_id',
+						ref: task.parent_id,
+					});
+				}
+				const blockedBy: string[] = [];
+				for (const ref of task.blocked_by ?? []) {
+					const blockerId = resolveLink(ref);
+					if (blockerId) blockedBy.push(blockerId);
+					else
+						summary.droppedLinks.push({
+							taskId: task.id,
+							field: 'blocked_by',
+							ref,
+						});
+				}
+				setTaskLinks(newId(task.id), parentId, blockedBy);
+			}
+			if (dryRun) throw new DryRunRollback();
+		})();
+	} catch (err) {
+		if (!(err instanceof DryRunRollback)) throw err;
+	}
+	return summary;
+}
@@ -0,0 +1,174 @@
+// Minimal five-field cron: "minute hour day-of-month month day-of-week".
+// Fields accept *, numbers, ranges (1-5), steps (*/15, 9-17/2), lists (1,15)
+// and month / weekday names (jan, mon). Expressions are evaluated in the
+// server's local time zone (TZ).
+
+export interface CronExpression {
+	minutes: Set<number>;
+	hours: Set<number>;
+	daysOfMonth: Set<number>;
+	months: Set<number>;
+	// 0 = Sunday
+	daysOfWeek: Set<number>;
+	// When both day fields are restricted, a day matching either one matches
+	anyDayOfMonth: boolean;
+	anyDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+	'@yearly': '0 0 1 1 *',
+	'@annually': '0 0 1 1 *',
+	'@monthly': '0 0 1 * *',
+	'@weekly': '0 0 * * 0',
+	'@daily': '0 0 * * *',
+	'@midnight': '0 0 * * *',
+	'@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = [
+	'jan',
+	'feb',
+	'mar',
+	'apr',
+	'may',
+	'jun',
+	'jul',
+	'aug',
+	'sep',
+	'oct',
+	'nov',
+	'dec',
+];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// How far ahead to look for a matching minute before giving up (e.g. "0 0 31 2 *")
+const MAX_SEARCH_YEARS = 5;
+
+interface FieldSpec {
+	name: string;
+	min: number;
+	max: number;
+	names?: string[];
+	// Value of names[0]
+	namesOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+	{ name: 'minute', min: 0, max: 59 },
+	{ name: 'hour', min: 0, max: 23 },
+	{ name: 'day of month', min: 1, max: 31 },
+	{ name: 'month', min: 1, max: 12, names: MONTH_NAMES, namesOffset: 1 },
+	// 7 is accepted as Sunday
+	{ name: 'day of week', min: 0, max: 7, names: DAY_NAMES, namesOffset: 0 },
+];
+
+function parseValue(value: string, spec: FieldSpec): number {
+	const nameIndex = spec.names?.indexOf(value.toLowerCase()) ?? -1;
+	if (nameIndex >= 0) return nameIndex + (spec.namesOffset ?? 0);
+	if (!/^\d+$/.test(value)) {
+		throw new Error(`Invalid ${spec.name} value "${value}"`);
+	}
+	const n = Number(value);
+	if (n < spec.min || n > spec.max) {
+		throw new Error(
+			`${spec.name} value ${n} is out of range ${spec.min}-${spec.max}`,
+		);
+	}
+	return n;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+	const values = new Set<number>();
+	for (const part of field.split(',')) {
+		const [range, stepText] = part.split('/');
+		const step = stepText === undefined ? 1 : Number(stepText);
+		if (!Number.isInteger(step) || step < 1) {
+			throw new Error(`Invalid step in ${spec.name} "${part}"`);
+		}
+
+		let start: number;
+		let end: number;
+		if (range === '*') {
+			start = spec.min;
+			end = spec.max;
+		} else if (range.includes('-')) {
+			const [from, to] = range.split('-');
+			start = parseValue(from, spec);
+			end = parseValue(to, spec);
+			if (start > end) {
+				throw new Error(`Invalid range in ${spec.name} "${part}"`);
+			}
+		} else {
+			start = parseValue(range, spec);
+			// "5/15" means from 5 to the end, every 15
+			end = stepText === undefined ? start : spec.max;
+		}
+		for (let n = start; n <= end; n += step) values.add(n);
+	}
+	return values;
+}
+
+// Throws with a readable message when the expression is invalid
+export function parseCron(expression: string): CronExpression {
+	const trimmed = expression.trim();
+	const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+	if (fields.length !== 5) {
+		throw new Error(
+			'A cron expression needs 5 fields: minute hour day-of-month month day-of-week',
+		);
+	}
+
+	const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+		(field, i) => parseField(field, FIELDS[i]),
+	);
+	if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+	return {
+		minutes,
+		hours,
+		daysOfMonth,
+		months,
+		daysOfWeek,
+		anyDayOfMonth: fields[2] === '*',
+		anyDayOfWeek: fields[4] === '*',
+	};
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+	const dom = cron.daysOfMonth.has(date.getDate());
+	const dow = cron.daysOfWeek.has(date.getDay());
+	if (cron.anyDayOfMonth) return dow;
+	if (cron.anyDayOfWeek) return dom;
+	return dom || dow;
+}
+
+// First matching minute strictly after `after`, or null if there is none
+// within MAX_SEARCH_YEARS
+export function nextCronRun(
+	cron: CronExpression,
+	after: number,
+): number | null {
+	const date = new Date(after);
+	date.setSeconds(0, 0);
+	date.setMinutes(date.getMinutes() + 1);
+	const limit = new Date(after);
+	limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+	// Skip whole months, days and hours that cannot match
+	while (date <= limit) {
+		if (!cron.months.has(date.getMonth() + 1)) {
+			date.setMonth(date.getMonth() + 1, 1);
+			date.setHours(0, 0, 0, 0);
+		} else if (!matchesDay(cron, date)) {
+			date.setDate(date.getDate() + 1);
+			date.setHours(0, 0, 0, 0);
+		} else if (!cron.hours.has(date.getHours())) {
+			date.setHours(date.getHours() + 1, 0, 0, 0);
+		} else if (!cron.minutes.has(date.getMinutes())) {
+			date.setMinutes(date.getMinutes() + 1, 0, 0);
+		} else {
+			return date.getTime();
+		}
+	}
+	return null;
+}
@@ -1,7 +1,8 @@
 import { Database } from 'bun:sqlite';
 import { randomUUID } from 'node:crypto';
+import { getMigrationStatus, runMigrations } from './migrations';
 
-const DB_PATH = '/data/nanofleet-tasks.db';
+export const DB_PATH = process.env.DB_PATH ?? '/data/nanofleet-tasks.db';
 
 let db: Database;
 
@@ -10,51 +11,50 @@ export function getDb(): Database {
 		db = new Database(DB_PATH);
 		db.exec('PRAGMA journal_mode=WAL;');
 		db.exec('PRAGMA foreign_keys=ON;');
-		initSchema();
+		migrate();
 	}
 	return db;
 }
 
-function initSchema() {
-	db.exec(`
-    CREATE TABLE IF NOT EXISTS tasks (
-      id TEXT PRIMARY KEY,
-      title TEXT NOT NULL,
-      description TEXT,
-      status TEXT NOT NULL DEFAULT 'todo',
-      created_at INTEGER NOT NULL,
-      updated_at INTEGER NOT NULL
-    );
-
-    CREATE TABLE IF NOT EXISTS task_assignees (
-      task_id TEXT NOT NULL,
-      agent_id TEXT NOT NULL,
-      PRIMARY KEY (task_id, agent_id)
-    );
-
-    CREATE TABLE IF NOT EXISTS task_comments (
-      id TEXT PRIMARY KEY,
-      task_id TEXT NOT NULL,
-      author_id TEXT NOT NULL,
-      author_type TEXT NOT NULL,
-      author_name TEXT NOT NULL,
-      content TEXT NOT NULL,
-      created_at INTEGER NOT NULL
-    );
-
-    CREATE TABLE IF NOT EXISTS task_results (
-      id TEXT PRIMARY KEY,
-      task_id TEXT NOT NULL,
-      agent_id TEXT NOT NULL,
-      content TEXT NOT NULL,
-      file_path TEXT,
-      created_at INTEGER NOT NULL
-    );
-  `);
+function migrate() {
+	const { currentVersion, pending } = getMigrationStatus(db);
+	if (pending.length === 0) return;
+
+	// Keep a copy of an existing database before bringing it forward
+	const hasTasks = db
+		.query(
+			"SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'tasks'",
+		)
+		.get();
+	if (hasTasks) {
+		const backupPath = `${DB_PATH}.v${currentVersion}-${Date.now()}.bak`;
+		db.run('VACUUM INTO ?', [backupPath]);
+		console.log(`[DB] Backed up database to ${backupPath}`);
+	}
+
+	const status = runMigrations(db);
+	for (const m of pending) {
+		console.log(`[DB] Applied migration ${m.version} (${m.name})`);
+	}
+	console.log(`[DB] Schema is at version ${status.currentVersion}`);
 }
 
 // Task status type
-export type TaskStatus = 'todo' | 'in_progress' | 'review' | 'done';
+export type TaskStatus =
+	| 'todo'
+	| 'in_progress'
+	| 'needs_input'
+	| 'review'
+	| 'done';
+
+// Lowest to highest
+export type TaskPriority = 'low' | 'normal' | 'high' | 'urgent';
+export const TASK_PRIORITIES: TaskPriority[] = [
+	'low',
+	'normal',
+	'high',
+	'urgent',
+];
 
 // Row types
 export interface TaskRow {
@@ -62,13 +62,33 @@ export interface TaskRow {
 	title: string;
 	description: string | null;
 	status: TaskStatus;
+	parent_id: string | null;
+	board_id: string;
+	// Assignees that must submit before the task goes to review; null means all
+	review_quorum: number | null;
+	priority: TaskPriority;
+	due_at: number | null;
+	// When assignees were last reminded that the task is overdue
+	overdue_notified_at: number | null;
+	// Set by the watchdog while the task sees no activity; cleared by the next
+	// activity
+	stale_reminded_at: number | null;
+	stale_flagged_at: number | null;
+	// The agent that took the task from the pool, if any
+	claimed_by: string | null;
+	claimed_at: number | null;
+	// Archived tasks are kept but left out of the board and the agents' lists
+	archived_at: number | null;
 	created_at: number;
 	updated_at: number;
 }
 
+// Each assignee progresses on its own; the task status is derived from these
 export interface TaskAssigneeRow {
 	task_id: string;
 	agent_id: string;
+	status: TaskStatus;
+	updated_at: number | null;
 }
 
 export interface TaskCommentRow {
@@ -81,6 +101,77 @@ export interface TaskCommentRow {
 	created_at: number;
 }
 
+export type ActorType = 'agent' | 'human' | 'system';
+
+// Whoever performed a mutation, as recorded in the task event log
+export interface Actor {
+	id: string;
+	type: ActorType;
+	name: string;
+}
+
+export const SYSTEM_ACTOR: Actor = {
+	id: 'system',
+	type: 'system',
+	name: 'System',
+};
+
+export type TaskEventKind =
+	| 'created'
+	| 'status_changed'
+	| 'result_submitted'
+	| 'approved'
+	| 'rejected'
+	| 'commented'
+	| 'dependencies_changed'
+	| 'unblocked'
+	| 'subtask_created'
+	| 'subtask_deleted'
+	| 'updated'
+	| 'overdue_reminder'
+	| 'question_asked'
+	| 'answered'
+	| 'stale_reminder'
+	| 'escalated'
+	| 'claimed'
+	| 'archived'
+	| 'unarchived';
+
+export const TASK_EVENT_KINDS: TaskEventKind[] = [
+	'created',
+	'status_changed',
+	'result_submitted',
+	'approved',
+	'rejected',
+	'commented',
+	'dependencies_changed',
+	'unblocked',
+	'subtask_created',
+	'subtask_deleted',
+	'updated',
+	'overdue_reminder',
+	'question_asked',
+	'answered',
+	'stale_reminder',
+	'escalated',
+	'claimed',
+	'archived',
+	'unarchived',
+];
+
+export interface TaskEventRow {
+	id: string;
+	task_id: string;
+	kind: TaskEventKind;
+	actor_id: string;
+	actor_type: ActorType;
+	actor_name: string;
+	from_status: TaskStatus | null;
+	to_status: TaskStatus | null;
+	payload: Record<string, unknown> | null;
+	created_at: number;
+}
+
 export interface TaskResultRow {
 	id: string;
 	task_id: string;
@@ -90,43 +181,204 @@ export interface TaskResultRow {
 	created_at: number;
 }
 
+export interface TaskArtifactRow {
+	id: string;
+	task_id: string;
+	result_id: string;
+	// Relative to /shared/tasks/{taskId}/
+	path: string;
+	size: number;
+	mime_type: string;
+	sha256: string;
+	created_at: number;
+}
+
+export interface CreateTaskOptions {
+	boardId?: string;
+	blockedBy?: string[];
+	parentId?: string | null;
+	reviewQuorum?: number | null;
+	priority?: TaskPriority;
+	dueAt?: number | null;
+	labels?: string[];
+	// Required of the agents that may claim the task from the pool
+	capabilities?: string[];
+}
+
+export type TaskSort = 'created' | 'updated' | 'due' | 'priority';
+export const TASK_SORTS: TaskSort[] = ['created', 'updated', 'due', 'priority'];
+
+export interface TaskFilter {
+	boardId?: string;
+	status?: TaskStatus;
+	assigneeId?: string;
+	label?: string;
+	priority?: TaskPriority;
+	overdue?: boolean;
+	stale?: boolean;
+	// true for tasks without assignees, false for the others
+	pool?: boolean;
+	// true for archived tasks only; they are left out otherwise
+	archived?: boolean;
+	sort?: TaskSort;
+}
+
+export interface TaskFieldUpdates {
+	title?: string;
+	description?: string | null;
+	priority?: TaskPriority;
+	dueAt?: number | null;
+	boardId?: string;
+}
+
 // ---- Tasks ----
 
 export function createTask(
 	title: string,
 	description: string | null,
 	assigneeIds: string[],
+	options: CreateTaskOptions = {},
 ): TaskRow {
 	const db = getDb();
 	const id = randomUUID();
 	const now = Date.now();
+	const parentId = options.parentId ?? null;
+	const boardId = options.boardId ?? DEFAULT_BOARD_ID;
+	const reviewQuorum = options.reviewQuorum ?? null;
+	const priority = options.priority ?? 'normal';
+	const dueAt = options.dueAt ?? null;
 
 	db.run(
-		'INSERT INTO tasks (id, title, description, status, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)',
-		[id, title, description ?? null, 'todo', now, now],
+		'INSERT INTO tasks (id, title, description, status, parent_id, board_id, review_quorum, priority, due_at, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+		[
+			id,
+			title,
+			description ?? null,
+			'todo',
+			parentId,
+			boardId,
+			reviewQuorum,
+			priority,
+			dueAt,
+			now,
+			now,
+		],
 	);
 
 	for (const agentId of assigneeIds) {
-		db.run('INSERT INTO task_assignees (task_id, agent_id) VALUES (?, ?)', [
+		db.run(
+			'INSERT INTO task_assignees (task_id, agent_id, status, updated_at) VALUES (?, ?, ?, ?)',
+			[id, agentId, 'todo', now],
+		);
+	}
+
+	for (const blockerId of options.blockedBy ?? []) {
+		db.run(
+			'INSERT OR IGNORE INTO task_dependencies (task_id, blocked_by_id) VALUES (?, ?)',
+			[id, blockerId],
+		);
+	}
+
+	for (const label of options.labels ?? []) {
+		db.run('INSERT OR IGNORE INTO task_labels (task_id, label) VALUES (?, ?)', [
 			id,
-			agentId,
+			label,
 		]);
 	}
 
+	for (const capability of options.capabilities ?? []) {
+		db.run(
+			'INSERT OR IGNORE INTO task_capabilities (task_id, capability) VALUES (?, ?)',
+			[id, capability],
+		);
+	}
+
 	return {
 		id,
 		title,
 		description: description ?? null,
 		status: 'todo',
+		parent_id: parentId,
+		board_id: boardId,
+		review_quorum: reviewQuorum,
+		priority,
+		due_at: dueAt,
+		overdue_notified_at: null,
+		stale_reminded_at: null,
+		stale_flagged_at: null,
+		claimed_by: null,
+		claimed_at: null,
+		archived_at: null,
 		created_at: now,
 		updated_at: now,
 	};
 }
 
-export function listTasks(): TaskRow[] {
+const TASK_ORDER: Record<TaskSort, string> = {
+	created: 't.created_at DESC',
+	updated: 't.updated_at DESC',
+	// Tasks without a due date last
+	due: 't.due_at IS NULL, t.due_at ASC, t.created_at DESC',
+	priority: `CASE t.priority WHEN 'urgent' THEN 0 WHEN 'high' THEN 1 WHEN 'normal' THEN 2 ELSE 3 END, t.created_at DESC`,
+};
+
+export function listTasks(filter: TaskFilter = {}): TaskRow[] {
+	const where: string[] = [
+		filter.archived ? 't.archived_at IS NOT NULL' : 't.archived_at IS NULL',
+	];
+	const params: (string | number)[] = [];
+	if (filter.boardId) {
+		where.push('t.board_id = ?');
+		params.push(filter.boardId);
+	}
+	if (filter.status) {
+		where.push('t.status = ?');
+		params.push(filter.status);
+	}
+	if (filter.assigneeId) {
+		where.push(
+			'EXISTS (SELECT 1 FROM task_assignees ta WHERE ta.task_id = t.id AND ta.agent_id = ?)',
+		);
+		params.push(filter.assigneeId);
+	}
+	if (filter.label) {
+		where.push(
+			'EXISTS (SELECT 1 FROM task_labels tl WHERE tl.task_id = t.id AND tl.label = ?)',
+		);
+		params.push(filter.label);
+	}
+	if (filter.priority) {
+		where.push('t.priority = ?');
+		params.push(filter.priority);
+	}
+	if (filter.overdue !== undefined) {
+		where.push(
+			filter.overdue
+				? "t.due_at < ? AND t.status != 'done'"
+				: "NOT (t.due_at IS NOT NULL AND t.due_at < ? AND t.status != 'done')",
+		);
+		params.push(Date.now());
+	}
+	if (filter.stale !== undefined) {
+		where.push(
+			filter.stale
+				? 't.stale_flagged_at IS NOT NULL'
+				: 't.stale_flagged_at IS NULL',
+		);
+	}
+	if (filter.pool !== undefined) {
+		where.push(
+			`${filter.pool ? 'NOT ' : ''}EXISTS (SELECT 1 FROM task_assignees ta WHERE ta.task_id = t.id)`,
+		);
+	}
+
 	return getDb()
-		.query('SELECT * FROM tasks ORDER BY created_at DESC')
-		.all() as TaskRow[];
+		.query(`
+      SELECT t.* FROM tasks t
+      WHERE ${where.join(' AND ')}
+      ORDER BY ${TASK_ORDER[filter.sort ?? 'created']}
+    `)
+		.all(...params) as TaskRow[];
 }
 
 export function getTask(id: string): TaskRow | null {
@@ -144,15 +396,121 @@ export function updateTaskStatus(id: string, status: TaskStatus): boolean {
 	return result.changes > 0;
 }
 
+// Changing the due date re-arms the overdue reminder
+export function updateTaskFields(id: string, updates: TaskFieldUpdates) {
+	const sets: string[] = [];
+	const params: (string | number | null)[] = [];
+	if (updates.title !== undefined) {
+		sets.push('title = ?');
+		params.push(updates.title);
+	}
+	if (updates.description !== undefined) {
+		sets.push('description = ?');
+		params.push(updates.description);
+	}
+	if (updates.priority !== undefined) {
+		sets.push('priority = ?');
+		params.push(updates.priority);
+	}
+	if (updates.dueAt !== undefined) {
+		sets.push('due_at = ?', 'overdue_notified_at = NULL');
+		params.push(updates.dueAt);
+	}
+	if (updates.boardId !== undefined) {
+		sets.push('board_id = ?');
+		params.push(updates.boardId);
+	}
+	if (sets.length === 0) return;
+	getDb().run(
+		`UPDATE tasks SET ${sets.join(', ')}, updated_at = ? WHERE id = ?`,
+		[...params, Date.now(), id],
+	);
+}
+
+// Assignees, comments, results and dependencies cascade; subtasks are detached
 export function deleteTask(id: string): boolean {
-	const db = getDb();
-	db.run('DELETE FROM task_assignees WHERE task_id = ?', [id]);
-	db.run('DELETE FROM task_comments WHERE task_id = ?', [id]);
-	db.run('DELETE FROM task_results WHERE task_id = ?', [id]);
-	const result = db.run('DELETE FROM tasks WHERE id = ?', [id]);
+	const result = getDb().run('DELETE FROM tasks WHERE id = ?', [id]);
+	return result.changes > 0;
+}
+
+// ---- Archive ----
+
+// The task and its subtasks at any depth, the task first
+export function getTaskSubtree(taskId: string): TaskRow[] {
+	return getDb()
+		.query(`
+      WITH RECURSIVE subtree(id, depth) AS (
+        SELECT id, 0 FROM tasks WHERE id = ?
+        UNION ALL
+        SELECT t.id, s.depth + 1 FROM tasks t JOIN subtree s ON t.parent_id = s.id
+      )
+      SELECT t.* FROM tasks t JOIN subtree s ON s.id = t.id
+      ORDER BY s.depth ASC, t.created_at ASC
+    `)
+		.all(taskId) as TaskRow[];
+}
+
+// null unarchives. Returns false when the task was already in that state.
+export function setTaskArchived(
+	id: string,
+	archivedAt: number | null,
+): boolean {
+	const result = getDb().run(
+		`UPDATE tasks SET archived_at = ?, updated_at = ? WHERE id = ? AND archived_at IS ${archivedAt === null ? 'NOT NULL' : 'NULL'}`,
+		[archivedAt, Date.now(), id],
+	);
 	return result.changes > 0;
 }
 
+// Unarchived tasks done before `cutoff`. Subtasks wait for their parent, and
+// are archived along with it.
+export function getArchivableTasks(cutoff: number): TaskRow[] {
+	return getDb()
+		.query(`
+      SELECT t.* FROM tasks t
+      WHERE t.status = 'done' AND t.archived_at IS NULL
+        AND coalesce(
+          (SELECT MAX(e.created_at) FROM task_events e
+           WHERE e.task_id = t.id AND e.to_status = 'done'),
+          t.updated_at
+        ) < ?
+        AND NOT EXISTS (
+          SELECT 1 FROM tasks p WHERE p.id = t.parent_id AND p.archived_at IS NULL
+        )
+      ORDER BY t.updated_at ASC
+    `)
+		.all(cutoff) as TaskRow[];
+}
+
+// ---- Subtasks ----
+
+export function getSubtasks(parentId: string): TaskRow[] {
+	return getDb()
+		.query('SELECT * FROM tasks WHERE parent_id = ? ORDER BY created_at ASC')
+		.all(parentId) as TaskRow[];
+}
+
+export interface SubtaskNode extends TaskRow {
+	assignees: string[];
+	subtasks: SubtaskNode[];
+}
+
+export function getSubtaskTree(parentId: string): SubtaskNode[] {
+	return getSubtasks(parentId).map((task) => ({
+		...task,
+		assignees: getTaskAssignees(task.id),
+		subtasks: getSubtaskTree(task.id),
+	}));
+}
+
+// Direct subtasks that are not done yet. A parent cannot go to review while this is non-empty.
+export function getOpenSubtasks(parentId: string): string[] {
+	const rows = getDb()
+		.query("SELECT id FROM tasks WHERE parent_id = ? AND status != 'done'")
+		.all(parentId) as { id: string }[];
+	return rows.map((r) => r.id);
+}
+
 // ---- Assignees ----
 
 export function getTaskAssignees(taskId: string): string[] {
@@ -162,12 +520,454 @@ export function getTaskAssignees(taskId: string): string[] {
 	return rows.map((r) => r.agent_id);
 }
 
-export function getTasksForAgent(agentId: string): TaskRow[] {
+export function getTaskAssignments(taskId: string): TaskAssigneeRow[] {
+	return getDb()
+		.query('SELECT * FROM task_assignees WHERE task_id = ?')
+		.all(taskId) as TaskAssigneeRow[];
+}
+
+export function getTaskAssignment(
+	taskId: string,
+	agentId: string,
+): TaskAssigneeRow | null {
+	return (
+		(getDb()
+			.query('SELECT * FROM task_assignees WHERE task_id = ? AND agent_id = ?')
+			.get(taskId, agentId) as TaskAssigneeRow) ?? null
+	);
+}
+
+export function setAssigneeStatus(
+	taskId: string,
+	agentIds: string[],
+	status: TaskStatus,
+): void {
+	const db = getDb();
+	const now = Date.now();
+	for (const agentId of agentIds) {
+		db.run(
+			'UPDATE task_assignees SET status = ?, updated_at = ? WHERE task_id = ? AND agent_id = ?',
+			[status, now, taskId, agentId],
+		);
+	}
+}
+
+// Already assigned agents are skipped; new ones start in todo
+export function addTaskAssignees(taskId: string, agentIds: string[]) {
+	const db = getDb();
+	const now = Date.now();
+	db.transaction(() => {
+		for (const agentId of agentIds) {
+			db.run(
+				'INSERT OR IGNORE INTO task_assignees (task_id, agent_id, status, updated_at) VALUES (?, ?, ?, ?)',
+				[taskId, agentId, 'todo', now],
+			);
+		}
+		db.run('UPDATE tasks SET updated_at = ? WHERE id = ?', [now, taskId]);
+	})();
+}
+
+// Results and comments of the agent are kept
+export function removeTaskAssignee(taskId: string, agentId: string): boolean {
+	const db = getDb();
+	const result = db.run(
+		'DELETE FROM task_assignees WHERE task_id = ? AND agent_id = ?',
+		[taskId, agentId],
+	);
+	if (result.changes === 0) return false;
+	// The claim goes with the claimer's assignment
+	db.run(
+		`UPDATE tasks SET updated_at = ?,
+         claimed_by = CASE WHEN claimed_by = ? THEN NULL ELSE claimed_by END,
+         claimed_at = CASE WHEN claimed_by = ? THEN NULL ELSE claimed_at END
+       WHERE id = ?`,
+		[Date.now(), agentId, agentId, taskId],
+	);
+	return true;
+}
+
+// Assignments on tasks that are not archived, for the agents' current load
+export function getUnarchivedAssignments(): TaskAssigneeRow[] {
+	return getDb()
+		.query(`
+      SELECT ta.* FROM task_assignees ta
+      JOIN tasks t ON t.id = ta.task_id
+      WHERE t.archived_at IS NULL
+    `)
+		.all() as TaskAssigneeRow[];
+}
+
+// All assignments keyed by task, for building the board without a query per task
+export function getAssignmentsByTask(): Map<string, TaskAssigneeRow[]> {
+	const rows = getDb()
+		.query('SELECT * FROM task_assignees')
+		.all() as TaskAssigneeRow[];
+	const byTask = new Map<string, TaskAssigneeRow[]>();
+	for (const row of rows) {
+		const list = byTask.get(row.task_id) ?? [];
+		list.push(row);
+		byTask.set(row.task_id, list);
+	}
+	return byTask;
+}
+
+// ---- Labels ----
+
+export function getTaskLabels(taskId: string): string[] {
+	const rows = getDb()
+		.query('SELECT label FROM task_labels WHERE task_id = ? ORDER BY label')
+		.all(taskId) as { label: string }[];
+	return rows.map((r) => r.label);
+}
+
+export function setTaskLabels(taskId: string, labels: string[]) {
+	const db = getDb();
+	db.transaction(() => {
+		db.run('DELETE FROM task_labels WHERE task_id = ?', [taskId]);
+		for (const label of labels) {
+			db.run(
+				'INSERT OR IGNORE INTO task_labels (task_id, label) VALUES (?, ?)',
+				[taskId, label],
+			);
+		}
+		db.run('UPDATE tasks SET updated_at = ? WHERE id = ?', [
+			Date.now(),
+			taskId,
+		]);
+	})();
+}
+
+export function getLabelsByTask(): Map<string, string[]> {
+	const rows = getDb()
+		.query('SELECT task_id, label FROM task_labels ORDER BY label')
+		.all() as { task_id: string; label: string }[];
+	const byTask = new Map<string, string[]>();
+	for (const row of rows) {
+		const list = byTask.get(row.task_id) ?? [];
+		list.push(row.label);
+		byTask.set(row.task_id, list);
+	}
+	return byTask;
+}
+
+// ---- Capabilities ----
+
+export function getTaskCapabilities(taskId: string): string[] {
+	const rows = getDb()
+		.query(
+			'SELECT capability FROM task_capabilities WHERE task_id = ? ORDER BY capability',
+		)
+		.all(taskId) as { capability: string }[];
+	return rows.map((r) => r.capability);
+}
+
+export function setTaskCapabilities(taskId: string, capabilities: string[]) {
+	const db = getDb();
+	db.transaction(() => {
+		db.run('DELETE FROM task_capabilities WHERE task_id = ?', [taskId]);
+		for (const capability of capabilities) {
+			db.run(
+				'INSERT OR IGNORE INTO task_capabilities (task_id, capability) VALUES (?, ?)',
+				[taskId, capability],
+			);
+		}
+		db.run('UPDATE tasks SET updated_at = ? WHERE id = ?', [
+			Date.now(),
+			taskId,
+		]);
+	})();
+}
+
+export function getCapabilitiesByTask(): Map<string, string[]> {
+	const rows = getDb()
+		.query(
+			'SELECT task_id, capability FROM task_capabilities ORDER BY capability',
+		)
+		.all() as { task_id: string; capability: string }[];
+	const byTask = new Map<string, string[]>();
+	for (const row of rows) {
+		const list = byTask.get(row.task_id) ?? [];
+		list.push(row.capability);
+		byTask.set(row.task_id, list);
+	}
+	return byTask;
+}
+
+// ---- Pool ----
+
+// Unblocked todo tasks nobody is assigned to, most urgent and then oldest
+// first
+export function getPoolTasks(boardId?: string): TaskRow[] {
+	return getDb()
+		.query(`
+      SELECT t.* FROM tasks t
+      WHERE t.status = 'todo' AND t.archived_at IS NULL
+        AND (?1 IS NULL OR t.board_id = ?1)
+        AND NOT EXISTS (SELECT 1 FROM task_assignees ta WHERE ta.task_id = t.id)
+        AND NOT EXISTS (
+          SELECT 1 FROM task_dependencies d
+          JOIN tasks b ON b.id = d.blocked_by_id
+          WHERE d.task_id = t.id AND b.status != 'done'
+        )
+      ORDER BY CASE t.priority WHEN 'urgent' THEN 0 WHEN 'high' THEN 1 WHEN 'normal' THEN 2 ELSE 3 END, t.created_at ASC
+    `)
+		.all(boardId ?? null) as TaskRow[];
+}
+
+// Unfinished tasks the agent claimed and is still assigned to
+export function countOpenClaims(agentId: string): number {
+	const row = getDb()
+		.query(`
+      SELECT COUNT(*) AS count FROM tasks t
+      JOIN task_assignees ta ON ta.task_id = t.id AND ta.agent_id = t.claimed_by
+      WHERE t.claimed_by = ? AND ta.status != 'done' AND t.archived_at IS NULL
+    `)
+		.get(agentId) as { count: number };
+	return row.count;
+}
+
+// Assigns a pool task to the agent, unless another agent got there first:
+// the task must still be in todo, unarchived and without assignees when the
+// row is updated.
+// Returns whether the claim succeeded.
+export function claimPoolTask(taskId: string, agentId: string): boolean {
+	const db = getDb();
+	return db.transaction(() => {
+		const now = Date.now();
+		const result = db.run(
+			`UPDATE tasks SET claimed_by = ?, claimed_at = ?, updated_at = ?
+       WHERE id = ? AND status = 'todo' AND archived_at IS NULL
+         AND NOT EXISTS (SELECT 1 FROM task_assignees WHERE task_id = ?)`,
+			[agentId, now, now, taskId, taskId],
+		);
+		if (result.changes === 0) return false;
+		db.run(
+			'INSERT INTO task_assignees (task_id, agent_id, status, updated_at) VALUES (?, ?, ?, ?)',
+			[taskId, agentId, 'todo', now],
+		);
+		return true;
+	})();
+}
+
+// ---- Overdue reminders ----
+
+// Open tasks past their due date whose assignees have not been reminded yet
+export function getUnremindedOverdueTasks(now: number): TaskRow[] {
+	return getDb()
+		.query(`
+      SELECT * FROM tasks
+      WHERE due_at < ? AND status != 'done' AND overdue_notified_at IS NULL
+        AND archived_at IS NULL
+      ORDER BY due_at ASC
+    `)
+		.all(now) as TaskRow[];
+}
+
+export function markOverdueNotified(taskId: string, now: number) {
+	getDb().run('UPDATE tasks SET overdue_notified_at = ? WHERE id = ?', [
+		now,
+		taskId,
+	]);
+}
+
+// ---- Stale tasks ----
+
+// Events that show someone is working on the task: any status change, a
+// comment, a result, a question or answer, a claim, or new assignees. The
+// watchdog's own reminders and escalations are not activity.
+const ACTIVITY_EVENT_KINDS: TaskEventKind[] = [
+	'created',
+	'claimed',
+	'status_changed',
+	'result_submitted',
+	'approved',
+	'rejected',
+	'commented',
+	'unblocked',
+	'question_asked',
+	'answered',
+];
+
+function isActivityEvent(event: TaskEventRow): boolean {
+	return (
+		ACTIVITY_EVENT_KINDS.includes(event.kind) ||
+		event.to_status !== null ||
+		(event.payload?.changes as { assignees?: unknown } | undefined)
+			?.assignees !== undefined
+	);
+}
+
+function clearStaleMarks(taskId: string) {
+	getDb().run(
+		'UPDATE tasks SET stale_reminded_at = NULL, stale_flagged_at = NULL WHERE id = ? AND (stale_reminded_at IS NOT NULL OR stale_flagged_at IS NOT NULL)',
+		[taskId],
+	);
+}
+
+export interface StaleCandidate extends TaskRow {
+	last_activity_at: number;
+}
+
+// Unblocked tasks in the given statuses with their last activity
+export function getStaleCandidates(statuses: TaskStatus[]): StaleCandidate[] {
 	return getDb()
+		.query(`
+      SELECT t.*, coalesce(MAX(e.created_at), t.created_at) AS last_activity_at
+      FROM tasks t
+      LEFT JOIN task_events e ON e.task_id = t.id AND (
+        e.kind IN (SELECT value FROM json_each(?1))
+        OR e.to_status IS NOT NULL
+        OR json_extract(e.payload, '$.changes.assignees') IS NOT NULL
+      )
+      WHERE t.status IN (SELECT value FROM json_each(?2))
+        AND t.archived_at IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM task_dependencies d
+          JOIN tasks b ON b.id = d.blocked_by_id
+          WHERE d.task_id = t.id AND b.status != 'done'
+        )
+      GROUP BY t.id
+      ORDER BY last_activity_at ASC
+    `)
+		.all(
+			JSON.stringify(ACTIVITY_EVENT_KINDS),
+			JSON.stringify(statuses),
+		) as StaleCandidate[];
+}
+
+export function markStaleReminded(taskId: string, now: number) {
+	getDb().run('UPDATE tasks SET stale_reminded_at = ? WHERE id = ?', [
+		now,
+		taskId,
+	]);
+}
+
+export function markStaleFlagged(taskId: string, now: number) {
+	getDb().run('UPDATE tasks SET stale_flagged_at = ? WHERE id = ?', [
+		now,
+		taskId,
+	]);
+}
+
+// ---- Dependencies ----
+
+export function getTaskBlockers(taskId: string): string[] {
+	const rows = getDb()
+		.query('SELECT blocked_by_id FROM task_dependencies WHERE task_id = ?')
+		.all(taskId) as { blocked_by_id: string }[];
+	return rows.map((r) => r.blocked_by_id);
+}
+
+export function getTaskDependents(taskId: string): string[] {
+	const rows = getDb()
+		.query('SELECT task_id FROM task_dependencies WHERE blocked_by_id = ?')
+		.all(taskId) as { task_id: string }[];
+	return rows.map((r) => r.task_id);
+}
+
+// Blockers that have not been approved yet. A task is blocked while this is non-empty.
+export function getOpenBlockers(taskId: string): string[] {
+	const rows = getDb()
 		.query(
-			'SELECT t.* FROM tasks t JOIN task_assignees ta ON t.id = ta.task_id WHERE ta.agent_id = ? ORDER BY t.created_at DESC',
+			"SELECT d.blocked_by_id FROM task_dependencies d JOIN tasks t ON t.id = d.blocked_by_id WHERE d.task_id = ? AND t.status != 'done'",
 		)
-		.all(agentId) as TaskRow[];
+		.all(taskId) as { blocked_by_id: string }[];
+	return rows.map((r) => r.blocked_by_id);
+}
+
+// Returns true if `taskId` is reachable by following blockers from `blockerId`,
+// i.e. making `taskId` wait on `blockerId` would close a loop.
+function dependsOn(blockerId: string, taskId: string): boolean {
+	const row = getDb()
+		.query(`
+      WITH RECURSIVE chain(id) AS (
+        SELECT blocked_by_id FROM task_dependencies WHERE task_id = ?
+        UNION
+        SELECT d.blocked_by_id FROM task_dependencies d JOIN chain ON d.task_id = chain.id
+      )
+      SELECT 1 AS found FROM chain WHERE id = ? LIMIT 1
+    `)
+		.get(blockerId, taskId);
+	return row != null;
+}
+
+// Validates a blocker list for a task (null for a task not created yet).
+// Returns an error message, or null if the dependencies are acceptable.
+export function findDependencyError(
+	taskId: string | null,
+	blockedByIds: string[],
+): string | null {
+	for (const blockerId of blockedByIds) {
+		const blocker = getTask(blockerId);
+		if (!blocker) return `Blocking task ${blockerId} not found`;
+		// An archived task never gets done, so it would block forever
+		if (blocker.archived_at !== null) {
+			return `Blocking task ${blockerId} is archived`;
+		}
+		if (taskId === null) continue;
+		if (blockerId === taskId) return 'A task cannot be blocked by itself';
+		if (dependsOn(blockerId, taskId)) {
+			return `Blocking task ${blockerId} would create a dependency cycle`;
+		}
+	}
+	return null;
+}
+
+export function setTaskDependencies(
+	taskId: string,
+	blockedByIds: string[],
+): void {
+	const db = getDb();
+	db.transaction(() => {
+		db.run('DELETE FROM task_dependencies WHERE task_id = ?', [taskId]);
+		for (const blockerId of blockedByIds) {
+			db.run(
+				'INSERT OR IGNORE INTO task_dependencies (task_id, blocked_by_id) VALUES (?, ?)',
+				[taskId, blockerId],
+			);
+		}
+		db.run('UPDATE tasks SET updated_at = ? WHERE id = ?', [
+			Date.now(),
+			taskId,
+		]);
+	})();
+}
+
+// All dependency edges, keyed both ways
+export function getDependencyMaps(): {
+	blockedBy: Map<string, string[]>;
+	dependents: Map<string, string[]>;
+} {
+	const rows = getDb()
+		.query('SELECT task_id, blocked_by_id FROM task_dependencies')
+		.all() as { task_id: string; blocked_by_id: string }[];
+	const blockedBy = new Map<string, string[]>();
+	const dependents = new Map<string, string[]>();
+	for (const row of rows) {
+		const blockers = blockedBy.get(row.task_id) ?? [];
+		blockers.push(row.blocked_by_id);
+		blockedBy.set(row.task_id, blockers);
+
+		const waiting = dependents.get(row.blocked_by_id) ?? [];
+		waiting.push(row.task_id);
+		dependents.set(row.blocked_by_id, waiting);
+	}
+	return { blockedBy, dependents };
+}
+
+// Dependents of `taskId` that are still in todo and no longer wait on any blocker.
+export function getReleasedDependents(taskId: string): TaskRow[] {
+	return getDb()
+		.query(`
+      SELECT t.* FROM tasks t
+      JOIN task_dependencies d ON d.task_id = t.id
+      WHERE d.blocked_by_id = ? AND t.status = 'todo'
+      AND NOT EXISTS (
+        SELECT 1 FROM task_dependencies d2 JOIN tasks b ON b.id = d2.blocked_by_id
+        WHERE d2.task_id = t.id AND b.status != 'done'
+      )
+    `)
+		.all(taskId) as TaskRow[];
 }
 
 // ---- Comments ----
@@ -204,6 +1004,101 @@ export function getTaskComments(taskId: string): TaskCommentRow[] {
 		.all(taskId) as TaskCommentRow[];
 }
 
+// ---- Event log ----
+
+export function recordTaskEvent(
+	taskId: string,
+	kind: TaskEventKind,
+	actor: Actor,
+	details: {
+		from?: TaskStatus | null;
+		to?: TaskStatus | null;
+		payload?: Record<string, unknown>;
+	} = {},
+): TaskEventRow {
+	const event: TaskEventRow = {
+		id: randomUUID(),
+		task_id: taskId,
+		kind,
+		actor_id: actor.id,
+		actor_type: actor.type,
+		actor_name: actor.name,
+		from_status: details.from ?? null,
+		to_status: details.to ?? null,
+		payload: details.payload ?? null,
+		created_at: Date.now(),
+	};
+	if (isActivityEvent(event)) clearStaleMarks(taskId);
+	getDb().run(
+		'INSERT INTO task_events (id, task_id, kind, actor_id, actor_type, actor_name, from_status, to_status, payload, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+		[
+			event.id,
+			event.task_id,
+			event.kind,
+			event.actor_id,
+			event.actor_type,
+			event.actor_name,
+			event.from_status,
+			event.to_status,
+			event.payload ? JSON.stringify(event.payload) : null,
+			event.created_at,
+		],
+	);
+	enqueueWebhookDeliveries({
+		type: kind,
+		taskId,
+		actor,
+		from: event.from_status,
+		to: event.to_status,
+		payload: event.payload,
+		occurredAt: event.created_at,
+	});
+	return event;
+}
+
+export interface TaskEventFilter {
+	kind?: string;
+	actorId?: string;
+	actorType?: string;
+	since?: number;
+}
+
+export function getTaskEvents(
+	taskId: string,
+	filter: TaskEventFilter = {},
+): TaskEventRow[] {
+	const where = ['task_id = ?'];
+	const params: (string | number)[] = [taskId];
+	if (filter.kind) {
+		where.push('kind = ?');
+		params.push(filter.kind);
+	}
+	if (filter.actorId) {
+		where.push('actor_id = ?');
+		params.push(filter.actorId);
+	}
+	if (filter.actorType) {
+		where.push('actor_type = ?');
+		params.push(filter.actorType);
+	}
+	if (filter.since !== undefined) {
+		where.push('created_at >= ?');
+		params.push(filter.since);
+	}
+
+	const rows = getDb()
+		.query(
+			`SELECT * FROM task_events WHERE ${where.join(' AND ')} ORDER BY created_at ASC`,
+		)
+		.all(...params) as (Omit<TaskEventRow, 'payload'> & {
+		payload: string | null;
+	})[];
+	return rows.map((r) => ({
+		...r,
+		payload: r.payload ? JSON.parse(r.payload) : null,
+	}));
+}
+
 // ---- Results ----
 
 export function addTaskResult(
@@ -236,6 +1131,29 @@ export function getTaskResults(taskId: string): TaskResultRow[] {
 		.all(taskId) as TaskResultRow[];
 }
 
+export function getLatestResult(taskId: string): TaskResultRow | null {
+	return (
+		(getDb()
+			.query(
+				'SELECT * FROM task_results WHERE task_id = ? ORDER BY created_at DESC LIMIT 1',
+			)
+			.get(taskId) as TaskResultRow) ?? null
+	);
+}
+
+// Latest result of every task, keyed by task
+export function getLatestResultByTask(): Map<string, TaskResultRow> {
+	const rows = getDb()
+		.query(`
+      SELECT id, task_id, agent_id, content, file_path, created_at FROM (
+        SELECT *, ROW_NUMBER() OVER (PARTITION BY task_id ORDER BY created_at DESC) AS rn
+        FROM task_results
+      ) WHERE rn = 1
+    `)
+		.all() as TaskResultRow[];
+	return new Map(rows.map((r) => [r.task_id, r]));
+}
+
 export function getLatestResultPerAgent(taskId: string): TaskResultRow[] {
 	return getDb()
 		.query(`
@@ -250,3 +1168,1258 @@ export function getLatestResultPerAgent(taskId: string): TaskResultRow[] {
     `)
 		.all(taskId) as TaskResultRow[];
 }
+
+// ---- Artifacts ----
+
+export interface TaskArtifactFields {
+	path: string;
+	size: number;
+	mimeType: string;
+	sha256: string;
+}
+
+export function addTaskArtifacts(
+	taskId: string,
+	resultId: string,
+	artifacts: TaskArtifactFields[],
+): TaskArtifactRow[] {
+	const db = getDb();
+	const now = Date.now();
+	return artifacts.map((a) => {
+		const id = randomUUID();
+		db.run(
+			'INSERT INTO task_artifacts (id, task_id, result_id, path, size, mime_type, sha256, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+			[id, taskId, resultId, a.path, a.size, a.mimeType, a.sha256, now],
+		);
+		return {
+			id,
+			task_id: taskId,
+			result_id: resultId,
+			path: a.path,
+			size: a.size,
+			mime_type: a.mimeType,
+			sha256: a.sha256,
+			created_at: now,
+		};
+	});
+}
+
+export function getTaskArtifacts(taskId: string): TaskArtifactRow[] {
+	return getDb()
+		.query(
+			'SELECT * FROM task_artifacts WHERE task_id = ? ORDER BY created_at ASC, rowid ASC',
+		)
+		.all(taskId) as TaskArtifactRow[];
+}
+
+export function getTaskArtifact(id: string): TaskArtifactRow | null {
+	return (
+		(getDb()
+			.query('SELECT * FROM task_artifacts WHERE id = ?')
+			.get(id) as TaskArtifactRow) ?? null
+	);
+}
+
+// ---- Export / import ----
+
+// A task and every row attached to it
+export interface TaskRecord {
+	task: TaskRow;
+	assignees: TaskAssigneeRow[];
+	labels: string[];
+	capabilities: string[];
+	blockedBy: string[];
+	comments: TaskCommentRow[];
+	results: TaskResultRow[];
+	artifacts: TaskArtifactRow[];
+	events: TaskEventRow[];
+}
+
+function groupByTask<T extends { task_id: string }>(
+	rows: T[],
+): Map<string, T[]> {
+	const map = new Map<string, T[]>();
+	for (const row of rows) {
+		const list = map.get(row.task_id) ?? [];
+		list.push(row);
+		map.set(row.task_id, list);
+	}
+	return map;
+}
+
+export function getTaskRecords(): TaskRecord[] {
+	const db = getDb();
+	const all = <T>(sql: string) => db.query(sql).all() as T[];
+	const tasks = all<TaskRow>('SELECT * FROM tasks ORDER BY created_at ASC');
+	const assignees = groupByTask(
+		all<TaskAssigneeRow>('SELECT * FROM task_assignees ORDER BY rowid ASC'),
+	);
+	const labels = groupByTask(
+		all<{ task_id: string; label: string }>(
+			'SELECT * FROM task_labels ORDER BY label ASC',
+		),
+	);
+	const capabilities = groupByTask(
+		all<{ task_id: string; capability: string }>(
+			'SELECT * FROM task_capabilities ORDER BY capability ASC',
+		),
+	);
+	const blockers = groupByTask(
+		all<{ task_id: string; blocked_by_id: string }>(
+			'SELECT * FROM task_dependencies',
+		),
+	);
+	const comments = groupByTask(
+		all<TaskCommentRow>('SELECT * FROM task_comments ORDER BY created_at ASC'),
+	);
+	const results = groupByTask(
+		all<TaskResultRow>('SELECT * FROM task_results ORDER BY created_at ASC'),
+	);
+	const artifacts = groupByTask(
+		all<TaskArtifactRow>(
+			'SELECT * FROM task_artifacts ORDER BY created_at ASC, rowid ASC',
+		),
+	);
+	const events = groupByTask(
+		all<Omit<TaskEventRow, 'payload'> & { payload: string | null }>(
+			'SELECT * FROM task_events ORDER BY created_at ASC',
+		).map((r) => ({
+			...r,
+			payload: r.payload ? JSON.parse(r.payload) : null,
+		})),
+	);
+
+	return tasks.map((task) => ({
+		task,
+		assignees: assignees.get(task.id) ?? [],
+		labels: (labels.get(task.id) ?? []).map((l) => l.label),
+		capabilities: (capabilities.get(task.id) ?? []).map((c) => c.capability),
+		blockedBy: (blockers.get(task.id) ?? []).map((d) => d.blocked_by_id),
+		comments: comments.get(task.id) ?? [],
+		results: results.get(task.id) ?? [],
+		artifacts: artifacts.get(task.id) ?? [],
+		events: events.get(task.id) ?? [],
+	}));
+}
+
+export function getExistingTaskIds(ids: string[]): Set<string> {
+	const rows = getDb()
+		.query('SELECT id FROM tasks WHERE id IN (SELECT value FROM json_each(?))')
+		.all(JSON.stringify(ids)) as { id: string }[];
+	return new Set(rows.map((r) => r.id));
+}
+
+// Writes a task as given, IDs and timestamps included. Its parent and blockers
+// are left to setTaskLinks(), once every imported task exists. With
+// `replace`, an existing task of the same ID is updated and loses its
+// previous rows.
+export function writeTaskRecord(record: TaskRecord, replace: boolean) {
+	const db = getDb();
+	const t = record.task;
+	const fields = [
+		t.title,
+		t.description,
+		t.status,
+		t.board_id,
+		t.review_quorum,
+		t.priority,
+		t.due_at,
+		t.overdue_notified_at,
+		t.stale_reminded_at,
+		t.stale_flagged_at,
+		t.claimed_by,
+		t.claimed_at,
+		t.archived_at,
+		t.created_at,
+		t.updated_at,
+	];
+	if (replace) {
+		db.run(
+			'UPDATE tasks SET title = ?, description = ?, status = ?, board_id = ?, review_quorum = ?, priority = ?, due_at = ?, overdue_notified_at = ?, stale_reminded_at = ?, stale_flagged_at = ?, claimed_by = ?, claimed_at = ?, archived_at = ?, created_at = ?, updated_at = ? WHERE id = ?',
+			[...fields, t.id],
+		);
+		for (const table of [
+			'task_assignees',
+			'task_labels',
+			'task_capabilities',
+			'task_dependencies',
+			'task_comments',
+			'task_results',
+			'task_events',
+		]) {
+			db.run(`DELETE FROM ${table} WHERE task_id = ?`, [t.id]);
+		}
+	} else {
+		db.run(
+			'INSERT INTO tasks (title, description, status, board_id, review_quorum, priority, due_at, overdue_notified_at, stale_reminded_at, stale_flagged_at, claimed_by, claimed_at, archived_at, created_at, updated_at, id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+			[...fields, t.id],
+		);
+	}
+
+	for (const a of record.assignees) {
+		db.run(
+			'INSERT INTO task_assignees (task_id, agent_id, status, updated_at) VALUES (?, ?, ?, ?)',
+			[t.id, a.agent_id, a.status, a.updated_at],
+		);
+	}
+	for (const label of record.labels) {
+		db.run('INSERT INTO task_labels (task_id, label) VALUES (?, ?)', [
+			t.id,
+			label,
+		]);
+	}
+	for (const capability of record.capabilities) {
+		db.run(
+			'INSERT INTO task_capabilities (task_id, capability) VALUES (?, ?)',
+			[t.id, capability],
+		);
+	}
+	for (const c of record.comments) {
+		db.run(
+			'INSERT INTO task_comments (id, task_id, author_id, author_type, author_name, content, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+			[
+				c.id,
+				t.id,
+				c.author_id,
+				c.author_type,
+				c.author_name,
+				c.content,
+				c.created_at,
+			],
+		);
+	}
+	for (const r of record.results) {
+		db.run(
+			'INSERT INTO task_results (id, task_id, agent_id, content, file_path, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+			[r.id, t.id, r.agent_id, r.content, r.file_path, r.created_at],
+		);
+	}
+	for (const a of record.artifacts) {
+		db.run(
+			'INSERT INTO task_artifacts (id, task_id, result_id, path, size, mime_type, sha256, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+			[
+				a.id,
+				t.id,
+				a.result_id,
+				a.path,
+				a.size,
+				a.mime_type,
+				a.sha256,
+				a.created_at,
+			],
+		);
+	}
+	for (const e of record.events) {
+		db.run(
+			'INSERT INTO task_events (id, task_id, kind, actor_id, actor_type, actor_name, from_status, to_status, payload, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+			[
+				e.id,
+				t.id,
+				e.kind,
+				e.actor_id,
+				e.actor_type,
+				e.actor_name,
+				e.from_status,
+				e.to_status,
+				e.payload ? JSON.stringify(e.payload) : null,
+				e.created_at,
+			],
+		);
+	}
+}
+
+export function setTaskLinks(
+	taskId: string,
+	parentId: string | null,
+	blockedBy: string[],
+) {
+	const db = getDb();
+	db.run('UPDATE tasks SET parent_id = ? WHERE id = ?', [parentId, taskId]);
+	for (const blockerId of blockedBy) {
+		db.run(
+			'INSERT OR IGNORE INTO task_dependencies (task_id, blocked_by_id) VALUES (?, ?)',
+			[taskId, blockerId],
+		);
+	}
+}
+
+// A consistent copy of the live database, WAL included, written to `path`
+export function backupDatabase(path: string) {
+	getDb().run('VACUUM INTO ?', [path]);
+}
+
+// ---- Search ----
+
+export type SearchKind = 'task' | 'comment' | 'result';
+export const SEARCH_KINDS: SearchKind[] = ['task', 'comment', 'result'];
+
+// Matched terms in a snippet are wrapped in these control characters, so
+// callers can render highlights safely (HTML, markdown…)
+export const SNIPPET_START = '\u0002';
+export const SNIPPET_END = '\u0003';
+
+export interface SearchHit {
+	kind: SearchKind;
+	ref_id: string;
+	task_id: string;
+	task_title: string;
+	task_status: TaskStatus;
+	snippet: string;
+	created_at: number;
+}
+
+export interface SearchOptions {
+	kind?: SearchKind;
+	limit?: number;
+	offset?: number;
+}
+
+// Free text to an FTS5 query: every word must match, the last one as a
+// prefix. Returns null when there is nothing to search for.
+function toFtsQuery(text: string): string | null {
+	const terms = text.match(/[\p{L}\p{N}_]+/gu);
+	if (!terms) return null;
+	return terms
+		.map((t, i) => `"${t}"${i === terms.length - 1 ? '*' : ''}`)
+		.join(' ');
+}
+
+// Best matches first; task titles weigh more than bodies
+export function searchTasks(
+	text: string,
+	{ kind, limit = 20, offset = 0 }: SearchOptions = {},
+): { total: number; hits: SearchHit[] } {
+	const query = toFtsQuery(text);
+	if (!query) return { total: 0, hits: [] };
+
+	const db = getDb();
+	const kindClause = kind ? 'AND search_index.kind = ?' : '';
+	const params = kind ? [query, kind] : [query];
+
+	const { total } = db
+		.query(
+			`SELECT COUNT(*) AS total FROM search_index WHERE search_index MATCH ? ${kindClause}`,
+		)
+		.get(...params) as { total: number };
+
+	const hits = db
+		.query(`
+      SELECT search_index.kind, search_index.ref_id, search_index.task_id,
+        search_index.created_at, t.title AS task_title, t.status AS task_status,
+        snippet(search_index, -1, char(2), char(3), '…', 16) AS snippet
+      FROM search_index JOIN tasks t ON t.id = search_index.task_id
+      WHERE search_index MATCH ? ${kindClause}
+      ORDER BY bm25(search_index, 10.0, 1.0)
+      LIMIT ? OFFSET ?
+    `)
+		.all(...params, limit, offset) as SearchHit[];
+
+	return { total, hits };
+}
+
+// ---- Webhooks ----
+
+// Every task event kind, plus 'deleted' (a deleted task keeps no event log)
+export type WebhookEventType = TaskEventKind | 'deleted' | 'ping';
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+	...TASK_EVENT_KINDS,
+	'deleted',
+];
+
+export interface WebhookRow {
+	id: string;
+	url: string;
+	secret: string;
+	// JSON array of WebhookEventType; empty means every event
+	event_types: string;
+	description: string | null;
+	active: number;
+	created_at: number;
+	updated_at: number;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDeliveryRow {
+	id: string;
+	webhook_id: string;
+	event_type: WebhookEventType;
+	task_id: string | null;
+	payload: string;
+	status: WebhookDeliveryStatus;
+	attempts: number;
+	next_attempt_at: number | null;
+	last_attempt_at: number | null;
+	response_status: number | null;
+	last_error: string | null;
+	created_at: number;
+}
+
+export interface WebhookEvent {
+	type: WebhookEventType;
+	taskId: string | null;
+	actor: Actor;
+	from?: TaskStatus | null;
+	to?: TaskStatus | null;
+	payload?: Record<string, unknown> | null;
+	occurredAt?: number;
+}
+
+export interface WebhookUpdates {
+	url?: string;
+	eventTypes?: WebhookEventType[];
+	description?: string | null;
+	active?: boolean;
+}
+
+export function createWebhook(
+	url: string,
+	secret: string,
+	eventTypes: WebhookEventType[],
+	description: string | null,
+): WebhookRow {
+	const now = Date.now();
+	const webhook: WebhookRow = {
+		id: randomUUID(),
+		url,
+		secret,
+		event_types: JSON.stringify(eventTypes),
+		description,
+		active: 1,
+		created_at: now,
+		updated_at: now,
+	};
+	getDb().run(
+		'INSERT INTO webhooks (id, url, secret, event_types, description, active, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+		[
+			webhook.id,
+			webhook.url,
+			webhook.secret,
+			webhook.event_types,
+			webhook.description,
+			webhook.active,
+			webhook.created_at,
+			webhook.updated_at,
+		],
+	);
+	return webhook;
+}
+
+export function listWebhooks(): WebhookRow[] {
+	return getDb()
+		.query('SELECT * FROM webhooks ORDER BY created_at ASC')
+		.all() as WebhookRow[];
+}
+
+export function getWebhook(id: string): WebhookRow | null {
+	return (
+		(getDb()
+			.query('SELECT * FROM webhooks WHERE id = ?')
+			.get(id) as WebhookRow) ?? null
+	);
+}
+
+export function updateWebhook(id: string, updates: WebhookUpdates) {
+	const sets: string[] = [];
+	const params: (string | number | null)[] = [];
+	if (updates.url !== undefined) {
+		sets.push('url = ?');
+		params.push(updates.url);
+	}
+	if (updates.eventTypes !== undefined) {
+		sets.push('event_types = ?');
+		params.push(JSON.stringify(updates.eventTypes));
+	}
+	if (updates.description !== undefined) {
+		sets.push('description = ?');
+		params.push(updates.description);
+	}
+	if (updates.active !== undefined) {
+		sets.push('active = ?');
+		params.push(updates.active ? 1 : 0);
+	}
+	if (sets.length === 0) return;
+	getDb().run(
+		`UPDATE webhooks SET ${sets.join(', ')}, updated_at = ? WHERE id = ?`,
+		[...params, Date.now(), id],
+	);
+}
+
+// Pending deliveries go with it
+export function deleteWebhook(id: string): boolean {
+	const result = getDb().run('DELETE FROM webhooks WHERE id = ?', [id]);
+	return result.changes > 0;
+}
+
+// Queues one delivery per active webhook subscribed to the event, or only
+// for `webhookId` regardless of its filter. The body is a snapshot taken now.
+export function enqueueWebhookDeliveries(
+	event: WebhookEvent,
+	webhookId?: string,
+): number {
+	const db = getDb();
+	const webhooks = (
+		webhookId
+			? db.query('SELECT id FROM webhooks WHERE id = ?').all(webhookId)
+			: db
+					.query(`
+          SELECT id FROM webhooks
+          WHERE active = 1 AND (
+            json_array_length(event_types) = 0
+            OR EXISTS (SELECT 1 FROM json_each(event_types) WHERE value = ?)
+          )
+        `)
+					.all(event.type)
+	) as { id: string }[];
+	if (webhooks.length === 0) return 0;
+
+	const now = Date.now();
+	const task = event.taskId ? getTask(event.taskId) : null;
+	for (const { id } of webhooks) {
+		const deliveryId = randomUUID();
+		const body = {
+			id: deliveryId,
+			type: event.type,
+			occurredAt: event.occurredAt ?? now,
+			task,
+			actor: event.actor,
+			from: event.from ?? null,
+			to: event.to ?? null,
+			payload: event.payload ?? null,
+		};
+		db.run(
+			'INSERT INTO webhook_deliveries (id, webhook_id, event_type, task_id, payload, status, attempts, next_attempt_at, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+			[
+				deliveryId,
+				id,
+				event.type,
+				event.taskId,
+				JSON.stringify(body),
+				'pending',
+				0,
+				now,
+				now,
+			],
+		);
+	}
+	return webhooks.length;
+}
+
+export interface DueWebhookDelivery extends WebhookDeliveryRow {
+	url: string;
+	secret: string;
+}
+
+// Pending deliveries whose next attempt is due, for active webhooks only
+export function getDueWebhookDeliveries(
+	now: number,
+	limit: number,
+): DueWebhookDelivery[] {
+	return getDb()
+		.query(`
+      SELECT d.*, w.url, w.secret FROM webhook_deliveries d
+      JOIN webhooks w ON w.id = d.webhook_id
+      WHERE d.status = 'pending' AND d.next_attempt_at <= ? AND w.active = 1
+      ORDER BY d.next_attempt_at ASC
+      LIMIT ?
+    `)
+		.all(now, limit) as DueWebhookDelivery[];
+}
+
+export function recordWebhookAttempt(
+	id: string,
+	attempt: {
+		status: WebhookDeliveryStatus;
+		nextAttemptAt: number | null;
+		responseStatus: number | null;
+		error: string | null;
+	},
+) {
+	getDb().run(
+		`UPDATE webhook_deliveries SET
+        status = ?, attempts = attempts + 1, next_attempt_at = ?,
+        last_attempt_at = ?, response_status = ?, last_error = ?
+      WHERE id = ?`,
+		[
+			attempt.status,
+			attempt.nextAttemptAt,
+			Date.now(),
+			attempt.responseStatus,
+			attempt.error,
+			id,
+		],
+	);
+}
+
+export function getWebhookDelivery(id: string): WebhookDeliveryRow | null {
+	return (
+		(getDb()
+			.query('SELECT * FROM webhook_deliveries WHERE id = ?')
+			.get(id) as WebhookDeliveryRow) ?? null
+	);
+}
+
+// Puts a delivery back in the queue, due immediately
+export function retryWebhookDelivery(id: string) {
+	getDb().run(
+		"UPDATE webhook_deliveries SET status = 'pending', next_attempt_at = ? WHERE id = ?",
+		[Date.now(), id],
+	);
+}
+
+export interface WebhookDeliveryFilter {
+	status?: WebhookDeliveryStatus;
+	limit?: number;
+	offset?: number;
+}
+
+// Newest first
+export function getWebhookDeliveries(
+	webhookId: string,
+	{ status, limit = 50, offset = 0 }: WebhookDeliveryFilter = {},
+): WebhookDeliveryRow[] {
+	const statusClause = status ? 'AND status = ?' : '';
+	const params = status ? [webhookId, status] : [webhookId];
+	return getDb()
+		.query(`
+      SELECT * FROM webhook_deliveries
+      WHERE webhook_id = ? ${statusClause}
+      ORDER BY created_at DESC
+      LIMIT ? OFFSET ?
+    `)
+		.all(...params, limit, offset) as WebhookDeliveryRow[];
+}
+
+// ---- Notification outbox ----
+
+export type NotificationKind =
+	| 'assigned'
+	| 'unassigned'
+	| 'rejected'
+	| 'answered'
+	| 'overdue'
+	| 'stale'
+	| 'pool'
+	| 'summary';
+export type NotificationStatus = 'pending' | 'delivered' | 'failed';
+
+export interface NotificationRow {
+	id: string;
+	task_id: string;
+	agent_id: string;
+	kind: NotificationKind;
+	content: string;
+	status: NotificationStatus;
+	attempts: number;
+	next_attempt_at: number | null;
+	last_attempt_at: number | null;
+	delivered_at: number | null;
+	last_error: string | null;
+	created_at: number;
+}
+
+export function queueNotifications(
+	taskId: string,
+	kind: NotificationKind,
+	agentIds: string[],
+	content: string,
+): NotificationRow[] {
+	const db = getDb();
+	const now = Date.now();
+	const rows = agentIds.map(
+		(agentId): NotificationRow => ({
+			id: randomUUID(),
+			task_id: taskId,
+			agent_id: agentId,
+			kind,
+			content,
+			status: 'pending',
+			attempts: 0,
+			next_attempt_at: now,
+			last_attempt_at: null,
+			delivered_at: null,
+			last_error: null,
+			created_at: now,
+		}),
+	);
+	db.transaction(() => {
+		for (const row of rows) {
+			db.run(
+				'INSERT INTO notification_outbox (id, task_id, agent_id, kind, content, status, attempts, next_attempt_at, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+				[
+					row.id,
+					row.task_id,
+					row.agent_id,
+					row.kind,
+					row.content,
+					row.status,
+					row.attempts,
+					row.next_attempt_at,
+					row.created_at,
+				],
+			);
+		}
+	})();
+	return rows;
+}
+
+export function getDueNotifications(
+	now: number,
+	limit: number,
+): NotificationRow[] {
+	return getDb()
+		.query(`
+      SELECT * FROM notification_outbox
+      WHERE status = 'pending' AND next_attempt_at <= ?
+      ORDER BY next_attempt_at ASC
+      LIMIT ?
+    `)
+		.all(now, limit) as NotificationRow[];
+}
+
+export function recordNotificationAttempt(
+	id: string,
+	attempt: {
+		status: NotificationStatus;
+		nextAttemptAt: number | null;
+		error: string | null;
+	},
+) {
+	const now = Date.now();
+	getDb().run(
+		`UPDATE notification_outbox SET
+        status = ?, attempts = attempts + 1, next_attempt_at = ?,
+        last_attempt_at = ?, last_error = ?,
+        delivered_at = CASE WHEN ? = 'delivered' THEN ? ELSE delivered_at END
+      WHERE id = ?`,
+		[
+			attempt.status,
+			attempt.nextAttemptAt,
+			now,
+			attempt.error,
+			attempt.status,
+			now,
+			id,
+		],
+	);
+}
+
+export function getNotification(id: string): NotificationRow | null {
+	return (
+		(getDb()
+			.query('SELECT * FROM notification_outbox WHERE id = ?')
+			.get(id) as NotificationRow) ?? null
+	);
+}
+
+// Puts a notification back in the queue, due immediately
+export function resendNotification(id: string) {
+	getDb().run(
+		"UPDATE notification_outbox SET status = 'pending', next_attempt_at = ? WHERE id = ?",
+		[Date.now(), id],
+	);
+}
+
+// Drops what is still queued for an agent, e.g. once it is unassigned
+export function dropPendingNotifications(taskId: string, agentId: string) {
+	getDb().run(
+		"DELETE FROM notification_outbox WHERE task_id = ? AND agent_id = ? AND status = 'pending'",
+		[taskId, agentId],
+	);
+}
+
+// Drops what is still queued about a task, e.g. once it is archived
+export function dropTaskPendingNotifications(taskId: string) {
+	getDb().run(
+		"DELETE FROM notification_outbox WHERE task_id = ? AND status = 'pending'",
+		[taskId],
+	);
+}
+
+// Newest first
+export function getTaskNotifications(taskId: string): NotificationRow[] {
+	return getDb()
+		.query(
+			'SELECT * FROM notification_outbox WHERE task_id = ? ORDER BY created_at DESC',
+		)
+		.all(taskId) as NotificationRow[];
+}
+
+// ---- Stats ----
+
+// Every event of these kinds, oldest first
+export function getEventsOfKinds(kinds: TaskEventKind[]): TaskEventRow[] {
+	const rows = getDb()
+		.query(
+			'SELECT * FROM task_events WHERE kind IN (SELECT value FROM json_each(?)) ORDER BY created_at ASC, rowid ASC',
+		)
+		.all(JSON.stringify(kinds)) as (Omit<TaskEventRow, 'payload'> & {
+		payload: string | null;
+	})[];
+	return rows.map((r) => ({
+		...r,
+		payload: r.payload ? JSON.parse(r.payload) : null,
+	}));
+}
+
+// When each task entered its current status: its last status change, or its
+// creation
+export function getStatusEnteredAt(): Map<string, number> {
+	const rows = getDb()
+		.query(`
+      SELECT t.id, coalesce(MAX(e.created_at), t.created_at) AS entered_at
+      FROM tasks t
+      LEFT JOIN task_events e ON e.task_id = t.id AND e.to_status IS NOT NULL
+      GROUP BY t.id
+    `)
+		.all() as { id: string; entered_at: number }[];
+	return new Map(rows.map((r) => [r.id, r.entered_at]));
+}
+
+export function countByStatus(
+	table: 'notification_outbox' | 'webhook_deliveries',
+): Record<string, number> {
+	const rows = getDb()
+		.query(`SELECT status, count(*) AS n FROM ${table} GROUP BY status`)
+		.all() as { status: string; n: number }[];
+	return Object.fromEntries(rows.map((r) => [r.status, r.n]));
+}
+
+// ---- Schedules ----
+
+export interface TaskScheduleRow {
+	id: string;
+	board_id: string;
+	title: string;
+	description: string | null;
+	// JSON array of agent IDs
+	assignee_ids: string;
+	priority: TaskPriority;
+	// JSON array of labels
+	labels: string;
+	review_quorum: number | null;
+	// Exactly one of cron and interval_minutes is set
+	cron: string | null;
+	interval_minutes: number | null;
+	active: number;
+	// Null while paused
+	next_run_at: number | null;
+	last_run_at: number | null;
+	last_task_id: string | null;
+	created_at: number;
+	updated_at: number;
+}
+
+export interface TaskScheduleFields {
+	boardId: string;
+	title: string;
+	description: string | null;
+	assigneeIds: string[];
+	priority: TaskPriority;
+	labels: string[];
+	reviewQuorum: number | null;
+	cron: string | null;
+	intervalMinutes: number | null;
+}
+
+export type TaskScheduleUpdates = Partial<TaskScheduleFields> & {
+	active?: boolean;
+	nextRunAt?: number | null;
+};
+
+export function createTaskSchedule(
+	fields: TaskScheduleFields,
+	nextRunAt: number | null,
+): TaskScheduleRow {
+	const now = Date.now();
+	const schedule: TaskScheduleRow = {
+		id: randomUUID(),
+		board_id: fields.boardId,
+		title: fields.title,
+		description: fields.description,
+		assignee_ids: JSON.stringify(fields.assigneeIds),
+		priority: fields.priority,
+		labels: JSON.stringify(fields.labels),
+		review_quorum: fields.reviewQuorum,
+		cron: fields.cron,
+		interval_minutes: fields.intervalMinutes,
+		active: 1,
+		next_run_at: nextRunAt,
+		last_run_at: null,
+		last_task_id: null,
+		created_at: now,
+		updated_at: now,
+	};
+	getDb().run(
+		'INSERT INTO task_schedules (id, board_id, title, description, assignee_ids, priority, labels, review_quorum, cron, interval_minutes, active, next_run_at, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+		[
+			schedule.id,
+			schedule.board_id,
+			schedule.title,
+			schedule.description,
+			schedule.assignee_ids,
+			schedule.priority,
+			schedule.labels,
+			schedule.review_quorum,
+			schedule.cron,
+			schedule.interval_minutes,
+			schedule.active,
+			schedule.next_run_at,
+			schedule.created_at,
+			schedule.updated_at,
+		],
+	);
+	return schedule;
+}
+
+export function listTaskSchedules(): TaskScheduleRow[] {
+	return getDb()
+		.query('SELECT * FROM task_schedules ORDER BY created_at ASC')
+		.all() as TaskScheduleRow[];
+}
+
+export function getTaskSchedule(id: string): TaskScheduleRow | null {
+	return (
+		(getDb()
+			.query('SELECT * FROM task_schedules WHERE id = ?')
+			.get(id) as TaskScheduleRow) ?? null
+	);
+}
+
+export function updateTaskSchedule(id: string, updates: TaskScheduleUpdates) {
+	const sets: string[] = [];
+	const params: (string | number | null)[] = [];
+	if (updates.boardId !== undefined) {
+		sets.push('board_id = ?');
+		params.push(updates.boardId);
+	}
+	if (updates.title !== undefined) {
+		sets.push('title = ?');
+		params.push(updates.title);
+	}
+	if (updates.description !== undefined) {
+		sets.push('description = ?');
+		params.push(updates.description);
+	}
+	if (updates.assigneeIds !== undefined) {
+		sets.push('assignee_ids = ?');
+		params.push(JSON.stringify(updates.assigneeIds));
+	}
+	if (updates.priority !== undefined) {
+		sets.push('priority = ?');
+		params.push(updates.priority);
+	}
+	if (updates.labels !== undefined) {
+		sets.push('labels = ?');
+		params.push(JSON.stringify(updates.labels));
+	}
+	if (updates.reviewQuorum !== undefined) {
+		sets.push('review_quorum = ?');
+		params.push(updates.reviewQuorum);
+	}
+	if (updates.cron !== undefined) {
+		sets.push('cron = ?');
+		params.push(updates.cron);
+	}
+	if (updates.intervalMinutes !== undefined) {
+		sets.push('interval_minutes = ?');
+		params.push(updates.intervalMinutes);
+	}
+	if (updates.active !== undefined) {
+		sets.push('active = ?');
+		params.push(updates.active ? 1 : 0);
+	}
+	if (updates.nextRunAt !== undefined) {
+		sets.push('next_run_at = ?');
+		params.push(updates.nextRunAt);
+	}
+	if (sets.length === 0) return;
+	getDb().run(
+		`UPDATE task_schedules SET ${sets.join(', ')}, updated_at = ? WHERE id = ?`,
+		[...params, Date.now(), id],
+	);
+}
+
+// Tasks it created are kept
+export function deleteTaskSchedule(id: string): boolean {
+	const result = getDb().run('DELETE FROM task_schedules WHERE id = ?', [id]);
+	return result.changes > 0;
+}
+
+// Active schedules with a run due at `now` or earlier
+export function getDueTaskSchedules(now: number): TaskScheduleRow[] {
+	return getDb()
+		.query(
+			'SELECT * FROM task_schedules WHERE active = 1 AND next_run_at <= ? ORDER BY next_run_at ASC',
+		)
+		.all(now) as TaskScheduleRow[];
+}
+
+export function recordTaskScheduleRun(
+	id: string,
+	run: { ranAt: number; nextRunAt: number | null; taskId: string | null },
+) {
+	getDb().run(
+		'UPDATE task_schedules SET last_run_at = ?, next_run_at = ?, last_task_id = coalesce(?, last_task_id) WHERE id = ?',
+		[run.ranAt, run.nextRunAt, run.taskId, id],
+	);
+}
+
+// ---- Boards ----
+
+// A column shows the tasks in any of its statuses; each workflow status
+// belongs to exactly one column of a board
+export interface BoardColumn {
+	name: string;
+	statuses: TaskStatus[];
+}
+
+export interface BoardRow {
+	id: string;
+	name: string;
+	description: string | null;
+	// JSON array of BoardColumn, in display order
+	columns: string;
+	// JSON array of agent IDs given to new tasks created without assignees
+	default_assignee_ids: string;
+	created_at: number;
+	updated_at: number;
+}
+
+export interface BoardFields {
+	name: string;
+	description: string | null;
+	columns: BoardColumn[];
+	defaultAssigneeIds: string[];
+}
+
+export type BoardUpdates = Partial<BoardFields>;
+
+// Holds the tasks created before boards existed, and those created without one
+export const DEFAULT_BOARD_ID = 'default';
+
+export const DEFAULT_BOARD_COLUMNS: BoardColumn[] = [
+	{ name: 'To do', statuses: ['todo'] },
+	{ name: 'In progress', statuses: ['in_progress', 'needs_input'] },
+	{ name: 'Review', statuses: ['review'] },
+	{ name: 'Done', statuses: ['done'] },
+];
+
+export function createBoard(fields: BoardFields): BoardRow {
+	const now = Date.now();
+	const board: BoardRow = {
+		id: randomUUID(),
+		name: fields.name,
+		description: fields.description,
+		columns: JSON.stringify(fields.columns),
+		default_assignee_ids: JSON.stringify(fields.defaultAssigneeIds),
+		created_at: now,
+		updated_at: now,
+	};
+	insertBoard(board);
+	return board;
+}
+
+export function insertBoard(board: BoardRow) {
+	getDb().run(
+		'INSERT INTO boards (id, name, description, columns, default_assignee_ids, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+		[
+			board.id,
+			board.name,
+			board.description,
+			board.columns,
+			board.default_assignee_ids,
+			board.created_at,
+			board.updated_at,
+		],
+	);
+}
+
+// The default board first, then by name
+export function listBoards(): BoardRow[] {
+	return getDb()
+		.query('SELECT * FROM boards ORDER BY id != ? ASC, name COLLATE NOCASE ASC')
+		.all(DEFAULT_BOARD_ID) as BoardRow[];
+}
+
+export function getBoard(id: string): BoardRow | null {
+	return (
+		(getDb().query('SELECT * FROM boards WHERE id = ?').get(id) as BoardRow) ??
+		null
+	);
+}
+
+export function getBoardByName(name: string): BoardRow | null {
+	return (
+		(getDb()
+			.query('SELECT * FROM boards WHERE name = ?')
+			.get(name) as BoardRow) ?? null
+	);
+}
+
+export function updateBoard(id: string, updates: BoardUpdates) {
+	const sets: string[] = [];
+	const params: (string | number | null)[] = [];
+	if (updates.name !== undefined) {
+		sets.push('name = ?');
+		params.push(updates.name);
+	}
+	if (updates.description !== undefined) {
+		sets.push('description = ?');
+		params.push(updates.description);
+	}
+	if (updates.columns !== undefined) {
+		sets.push('columns = ?');
+		params.push(JSON.stringify(updates.columns));
+	}
+	if (updates.defaultAssigneeIds !== undefined) {
+		sets.push('default_assignee_ids = ?');
+		params.push(JSON.stringify(updates.defaultAssigneeIds));
+	}
+	if (sets.length === 0) return;
+	getDb().run(
+		`UPDATE boards SET ${sets.join(', ')}, updated_at = ? WHERE id = ?`,
+		[...params, Date.now(), id],
+	);
+}
+
+// Tasks and schedules still on the board keep it from being deleted
+export function getBoardUsage(id: string): {
+	tasks: number;
+	schedules: number;
+} {
+	const db = getDb();
+	const count = (table: string) =>
+		(
+			db
+				.query(`SELECT count(*) AS n FROM ${table} WHERE board_id = ?`)
+				.get(id) as { n: number }
+		).n;
+	return { tasks: count('tasks'), schedules: count('task_schedules') };
+}
+
+export function deleteBoard(id: string): boolean {
+	const result = getDb().run('DELETE FROM boards WHERE id = ?', [id]);
+	return result.changes > 0;
+}
+
+// ---- Templates ----
+
+export interface TaskTemplateRow {
+	id: string;
+	name: string;
+	// Title and description may hold {{variable}} placeholders
+	title: string;
+	description: string | null;
+	// JSON array of default agent IDs
+	assignee_ids: string;
+	// JSON array of default labels
+	labels: string;
+	priority: TaskPriority;
+	created_at: number;
+	updated_at: number;
+}
+
+export interface TaskTemplateFields {
+	name: string;
+	title: string;
+	description: string | null;
+	assigneeIds: string[];
+	labels: string[];
+	priority: TaskPriority;
+}
+
+export type TaskTemplateUpdates = Partial<TaskTemplateFields>;
+
+export function createTaskTemplate(
+	fields: TaskTemplateFields,
+): TaskTemplateRow {
+	const now = Date.now();
+	const template: TaskTemplateRow = {
+		id: randomUUID(),
+		name: fields.name,
+		title: fields.title,
+		description: fields.description,
+		assignee_ids: JSON.stringify(fields.assigneeIds),
+		labels: JSON.stringify(fields.labels),
+		priority: fields.priority,
+		created_at: now,
+		updated_at: now,
+	};
+	getDb().run(
+		'INSERT INTO task_templates (id, name, title, description, assignee_ids, labels, priority, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+		[
+			template.id,
+			template.name,
+			template.title,
+			template.description,
+			template.assignee_ids,
+			template.labels,
+			template.priority,
+			template.created_at,
+			template.updated_at,
+		],
+	);
+	return template;
+}
+
+export function listTaskTemplates(): TaskTemplateRow[] {
+	return getDb()
+		.query('SELECT * FROM task_templates ORDER BY name COLLATE NOCASE ASC')
+		.all() as TaskTemplateRow[];
+}
+
+export function getTaskTemplate(id: string): TaskTemplateRow | null {
+	return (
+		(getDb()
+			.query('SELECT * FROM task_templates WHERE id = ?')
+			.get(id) as TaskTemplateRow) ?? null
+	);
+}
+
+export function getTaskTemplateByName(name: string): TaskTemplateRow | null {
+	return (
+		(getDb()
+			.query('SELECT * FROM task_templates WHERE name = ?')
+			.get(name) as TaskTemplateRow) ?? null
+	);
+}
+
+export function updateTaskTemplate(id: string, updates: TaskTemplateUpdates) {
+	const sets: string[] = [];
+	const params: (string | number | null)[] = [];
+	if (updates.name !== undefined) {
+		sets.push('name = ?');
+		params.push(updates.name);
+	}
+	if (updates.title !== undefined) {
+		sets.push('title = ?');
+		params.push(updates.title);
+	}
+	if (updates.description !== undefined) {
+		sets.push('description = ?');
+		params.push(updates.description);
+	}
+	if (updates.assigneeIds !== undefined) {
+		sets.push('assignee_ids = ?');
+		params.push(JSON.stringify(updates.assigneeIds));
+	}
+	if (updates.labels !== undefined) {
+		sets.push('labels = ?');
+		params.push(JSON.stringify(updates.labels));
+	}
+	if (updates.priority !== undefined) {
+		sets.push('priority = ?');
+		params.push(updates.priority);
+	}
+	if (sets.length === 0) return;
+	getDb().run(
+		`UPDATE task_templates SET ${sets.join(', ')}, updated_at = ? WHERE id = ?`,
+		[...params, Date.now(), id],
+	);
+}
+
+export function deleteTaskTemplate(id: string): boolean {
+	const result = getDb().run('DELETE FROM task_templates WHERE id = ?', [id]);
+	return result.changes > 0;
+}
@@ -1,8 +1,22 @@
+import { startAutoArchive } from './archive';
 import { startMcpServer } from './mcp-server';
+import {
+	startNotificationOutbox,
+	startOverdueReminders,
+} from './notifications';
 import { startRestApi } from './rest-api';
+import { startScheduler } from './scheduler';
+import { startWatchdog } from './watchdog';
+import { startWebhookDeliveries } from './webhooks';
 
 console.log('[nanofleet-tasks] Starting...');
 
 await Promise.all([startMcpServer(), startRestApi()]);
+startNotificationOutbox();
+startOverdueReminders();
+startScheduler();
+startWatchdog();
+startAutoArchive();
+startWebhookDeliveries();
 
 console.log('[nanofleet-tasks] Ready');
@@ -3,26 +3,92 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { WebStandardStreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js';
 import { z } from 'zod';
 import {
+	bearerToken,
+	MCP_AUTH_VERIFIER,
+	tokenFingerprint,
+	verifyAgentToken,
+} from './agent-auth';
+import { inspectArtifacts, taskArtifactDir } from './artifacts';
+import {
+	publishComment,
+	publishResult,
+	publishTaskCreated,
+	publishTaskUpdated,
+} from './board-events';
+import {
+	type Actor,
 	addComment,
+	addTaskArtifacts,
 	addTaskResult,
+	countOpenClaims,
+	createTask,
+	findDependencyError,
+	getDb,
+	getLabelsByTask,
+	getSubtaskTree,
 	getTask,
+	getTaskArtifacts,
 	getTaskAssignees,
+	getTaskAssignments,
+	getTaskBlockers,
+	getTaskCapabilities,
 	getTaskComments,
+	getTaskDependents,
+	getTaskEvents,
+	getTaskLabels,
 	getTaskResults,
-	getTasksForAgent,
-	updateTaskStatus,
+	listTasks,
+	recordTaskEvent,
+	SEARCH_KINDS,
+	type SearchKind,
+	SNIPPET_END,
+	SNIPPET_START,
+	searchTasks,
+	setAssigneeStatus,
+	TASK_PRIORITIES,
+	TASK_SORTS,
+	type TaskPriority,
+	type TaskSort,
+	type TaskStatus,
 } from './db';
-
-// Stores the calling agentId for the duration of each MCP request
+import { notifyAssignees } from './notifications';
+import {
+	type ClaimResult,
+	claimTask,
+	getClaimLimit,
+	listAvailableTasks,
+} from './pool';
+import {
+	checkTransition,
+	syncTaskStatus,
+	TASK_STATUSES,
+	type TransitionCheck,
+	WORKFLOW_ERRORS,
+} from './workflow';
+
+// Stores the calling agentId, verified from its token, for the duration of
+// each MCP request
 const agentIdStorage = new AsyncLocalStorage<string>();
 
 export function getCallerAgentId(): string {
-	return agentIdStorage.getStore() ?? 'unknown';
+	const agentId = agentIdStorage.getStore();
+	if (!agentId) throw new Error('No authenticated agent for this request');
+	return agentId;
 }
 
 const NANO_API_URL =
 	process.env.NANO_API_URL ?? 'http://host.docker.internal:3000';
 const NANO_INTERNAL_TOKEN = process.env.NANO_INTERNAL_TOKEN ?? '';
+const MAX_SEARCH_LIMIT = 50;
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const SESSION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL_MS = 60_000;
+// Marks agent questions in the comment thread
+const QUESTION_PREFIX = '[Question]';
+
+async function getAgentActor(agentId: string): Promise<Actor> {
+	return { id: agentId, type: 'agent', name: await getAgentName(agentId) };
+}
 
 async function getAgentName(agentId: string): Promise<string> {
 	try {
@@ -51,21 +117,110 @@ export function createMcpServer(): McpServer {
 	// --- tool: list_my_tasks ---
 	server.tool(
 		'list_my_tasks',
-		'Returns all tasks assigned to the calling agent (all statuses).',
-		{},
-		async () => {
+		'Returns the tasks assigned to the calling agent (all statuses by default), optionally filtered and sorted.',
+		{
+			status: z
+				.enum(TASK_STATUSES as [TaskStatus, ...TaskStatus[]])
+				.optional()
+				.describe('Only tasks in this status'),
+			label: z.string().optional().describe('Only tasks with this label'),
+			priority: z
+				.enum(TASK_PRIORITIES as [TaskPriority, ...TaskPriority[]])
+				.optional()
+				.describe('Only tasks with this priority'),
+			overdue: z
+				.boolean()
+				.optional()
+				.describe('true for overdue tasks only, false to exclude them'),
+			sort: z
+				.enum(TASK_SORTS as [TaskSort, ...TaskSort[]])
+				.optional()
+				.describe('Sort order, newest first by default'),
+			boardId: z.string().optional().describe('Only tasks on this board'),
+			archived: z
+				.boolean()
+				.optional()
+				.describe('true for archived tasks only; they are left out otherwise'),
+		},
+		async ({ status, label, priority, overdue, sort, boardId, archived }) => {
 			const agentId = getCallerAgentId();
-			const tasks = getTasksForAgent(agentId);
+			const labels = getLabelsByTask();
+			const tasks = listTasks({
+				status,
+				assigneeId: agentId,
+				label: label?.trim().toLowerCase() || undefined,
+				priority,
+				overdue,
+				sort,
+				boardId: boardId?.trim() || undefined,
+				archived,
+			}).map((task) => ({ ...task, labels: labels.get(task.id) ?? [] }));
 			return {
 				content: [{ type: 'text', text: JSON.stringify({ tasks }) }],
 			};
 		},
 	);
 
+	// --- tool: list_available_tasks ---
+	server.tool(
+		'list_available_tasks',
+		'Returns the unassigned tasks waiting in the pool that you have the capabilities for, most urgent first. Claim one with claim_task.',
+		{
+			boardId: z.string().optional().describe('Only tasks on this board'),
+		},
+		async ({ boardId }) => {
+			const agentId = getCallerAgentId();
+			const tasks = listAvailableTasks(agentId, boardId?.trim() || undefined);
+			return {
+				content: [
+					{
+						type: 'text',
+						text: JSON.stringify({
+							tasks,
+							openClaims: countOpenClaims(agentId),
+							claimLimit: getClaimLimit(agentId),
+						}),
+					},
+				],
+			};
+		},
+	);
+
+	// --- tool: claim_task ---
+	server.tool(
+		'claim_task',
+		'Take a task from the pool: you become its assignee. Fails if another agent claimed it first, if you lack a required capability, or if you already hold as many claimed tasks as you may. Then work on it as on any assigned task.',
+		{
+			taskId: z.string().describe('The ID of the pool task'),
+		},
+		async ({ taskId }) => {
+			const agentId = getCallerAgentId();
+			const claim = claimTask(taskId, agentId);
+			if (!claim.ok) return workflowError(claim);
+
+			const actor = await getAgentActor(agentId);
+			recordTaskEvent(taskId, 'claimed', actor, { payload: { agentId } });
+			publishTaskUpdated(taskId);
+
+			return {
+				content: [
+					{
+						type: 'text',
+						text: JSON.stringify({
+							taskId,
+							status: claim.task.status,
+							ok: true,
+						}),
+					},
+				],
+			};
+		},
+	);
+
 	// --- tool: get_task ---
 	server.tool(
 		'get_task',
-		'Returns full task details including comments and results.',
+		'Returns full task details including comments, results, the tasks it is blocked by and the tasks that depend on it.',
 		{
 			taskId: z.string().describe('The ID of the task'),
 		},
@@ -80,15 +235,38 @@ export function createMcpServer(): McpServer {
 				};
 			}
 
-			const assignees = getTaskAssignees(taskId);
+			const assignments = getTaskAssignments(taskId);
+			const assignees = assignments.map((a) => a.agent_id);
+			const assigneeStatus = Object.fromEntries(
+				assignments.map((a) => [a.agent_id, a.status]),
+			);
+			const labels = getTaskLabels(taskId);
+			const capabilities = getTaskCapabilities(taskId);
 			const comments = getTaskComments(taskId);
 			const results = getTaskResults(taskId);
+			const artifacts = getTaskArtifacts(taskId).map((a) => ({
+				...a,
+				filePath: `${taskArtifactDir(taskId)}/${a.path}`,
+			}));
+			const blockedBy = getTaskBlockers(taskId);
+			const dependents = getTaskDependents(taskId);
 
 			return {
 				content: [
 					{
 						type: 'text',
-						text: JSON.stringify({ task, assignees, comments, results }),
+						text: JSON.stringify({
+							task,
+							assignees,
+							assigneeStatus,
+							labels,
+							capabilities,
+							comments,
+							results,
+							artifacts,
+							blockedBy,
+							dependents,
+						}),
 					},
 				],
 			};
@@ -98,7 +276,7 @@ export function createMcpServer(): McpServer {
 	// --- tool: update_task_status ---
 	server.tool(
 		'update_task_status',
-		'Update the status of a task. Agents can only set "in_progress" or "review". Use this when you start working (in_progress) or want human review (review). Do NOT call this separately when using post_task_result — it automatically sets status to review.',
+		'Update the status of a task. Agents can only set "in_progress" or "review". Use this when you start working (in_progress) or want human review (review). Do NOT call this separately when using post_task_result — it automatically sets status to review. To ask a question, use ask_human instead of requesting review.',
 		{
 			taskId: z.string().describe('The ID of the task'),
 			status: z
@@ -120,14 +298,91 @@ export function createMcpServer(): McpServer {
 				};
 			}
 
-			const assignees = getTaskAssignees(taskId);
-			if (!assignees.includes(agentId)) {
+			const actor = await getAgentActor(agentId);
+			const check = checkTransition(
+				task,
+				status === 'in_progress' ? 'start' : 'request_review',
+				actor,
+			);
+			if (!check.ok) return workflowError(check);
+
+			setAssigneeStatus(taskId, [agentId], check.to);
+			const taskStatus = syncTaskStatus(taskId);
+			recordTaskEvent(taskId, 'status_changed', actor, {
+				from: taskStatus.from,
+				to: taskStatus.to,
+				payload: {
+					agentId,
+					assigneeStatus: { from: check.from, to: check.to },
+				},
+			});
+			publishTaskUpdated(taskId);
+
+			return {
+				content: [
+					{
+						type: 'text',
+						text: JSON.stringify({
+							taskId,
+							status: taskStatus.to,
+							yourStatus: check.to,
+							ok: true,
+						}),
+					},
+				],
+			};
+		},
+	);
+
+	// --- tool: post_task_result ---
+	server.tool(
+		'post_task_result',
+		'Submit your result for a task and move your part to review. The task itself goes to review once every assignee (or the review quorum) has submitted. Call this when you are done with the task. Attached files must already exist under /shared/tasks/{taskId}/; the result is rejected if any path is outside that directory or missing.',
+		{
+			taskId: z.string().describe('The ID of the task'),
+			content: z
+				.string()
+				.describe('Your result text / summary of what you did'),
+			filePath: z
+				.string()
+				.optional()
+				.describe(
+					'Optional: path to a file you wrote under /shared/tasks/{taskId}/ (absolute, or relative to that directory)',
+				),
+			filePaths: z
+				.array(z.string())
+				.optional()
+				.describe('Optional: several files to attach, same rules as filePath'),
+		},
+		async ({ taskId, content, filePath, filePaths }) => {
+			const agentId = getCallerAgentId();
+			const task = getTask(taskId);
+
+			if (!task) {
+				return {
+					content: [
+						{ type: 'text', text: JSON.stringify({ error: 'Task not found' }) },
+					],
+					isError: true,
+				};
+			}
+
+			const actor = await getAgentActor(agentId);
+			const check = checkTransition(task, 'submit_result', actor);
+			if (!check.ok) return workflowError(check);
+
+			const files = await inspectArtifacts(taskId, [
+				...(filePath ? [filePath] : []),
+				...(filePaths ?? []),
+			]);
+			if (typeof files === 'string') {
 				return {
 					content: [
 						{
 							type: 'text',
 							text: JSON.stringify({
-								error: 'You are not assigned to this task',
+								error: files,
+								code: 'INVALID_ARTIFACT',
 							}),
 						},
 					],
@@ -135,66 +390,214 @@ export function createMcpServer(): McpServer {
 				};
 			}
 
-			updateTaskStatus(taskId, status);
+			// Save result and its files
+			const { result, artifacts } = getDb().transaction(() => {
+				const result = addTaskResult(
+					taskId,
+					agentId,
+					content,
+					files[0]?.path ?? null,
+				);
+				return {
+					result,
+					artifacts: addTaskArtifacts(taskId, result.id, files),
+				};
+			})();
+			publishResult(result);
+
+			// Move this assignment to review; the task follows once the quorum is met
+			setAssigneeStatus(taskId, [agentId], check.to);
+			const taskStatus = syncTaskStatus(taskId);
+			recordTaskEvent(taskId, 'result_submitted', actor, {
+				from: taskStatus.from,
+				to: taskStatus.to,
+				payload: {
+					agentId,
+					resultId: result.id,
+					filePath: result.file_path,
+					artifacts: artifacts.map((a) => a.path),
+					assigneeStatus: { from: check.from, to: check.to },
+				},
+			});
+			publishTaskUpdated(taskId);
+
+			return {
+				content: [
+					{
+						type: 'text',
+						text: JSON.stringify({
+							resultId: result.id,
+							artifacts: artifacts.map((a) => ({
+								id: a.id,
+								path: a.path,
+								size: a.size,
+								mimeType: a.mime_type,
+								sha256: a.sha256,
+							})),
+							taskId,
+							status: taskStatus.to,
+							yourStatus: check.to,
+							ok: true,
+						}),
+					},
+				],
+			};
+		},
+	);
 
-			const agentName = await getAgentName(agentId);
-			const statusLabel =
-				status === 'in_progress'
-					? 'started working on this task'
-					: 'submitted this task for review';
-			addComment(
+	// --- tool: ask_human ---
+	server.tool(
+		'ask_human',
+		'Ask a human a question when you are unsure how to proceed, instead of guessing. Your part of the task moves to "needs_input" until a human replies; the answer is sent to you as a message and your part returns to "in_progress".',
+		{
+			taskId: z.string().describe('The ID of the task'),
+			question: z
+				.string()
+				.min(1)
+				.describe(
+					'The question, with the context the human needs to answer it',
+				),
+		},
+		async ({ taskId, question }) => {
+			const agentId = getCallerAgentId();
+			const task = getTask(taskId);
+
+			if (!task) {
+				return {
+					content: [
+						{ type: 'text', text: JSON.stringify({ error: 'Task not found' }) },
+					],
+					isError: true,
+				};
+			}
+
+			const actor = await getAgentActor(agentId);
+			const check = checkTransition(task, 'ask_human', actor);
+			if (!check.ok) return workflowError(check);
+
+			const comment = addComment(
 				taskId,
 				agentId,
 				'agent',
-				agentName,
-				`[System] ${agentName} ${statusLabel}.`,
+				actor.name,
+				`${QUESTION_PREFIX} ${question}`,
 			);
+			publishComment(comment);
+
+			setAssigneeStatus(taskId, [agentId], check.to);
+			const taskStatus = syncTaskStatus(taskId);
+			recordTaskEvent(taskId, 'question_asked', actor, {
+				from: taskStatus.from,
+				to: taskStatus.to,
+				payload: {
+					agentId,
+					commentId: comment.id,
+					question,
+					assigneeStatus: { from: check.from, to: check.to },
+				},
+			});
+			publishTaskUpdated(taskId);
 
 			return {
 				content: [
-					{ type: 'text', text: JSON.stringify({ taskId, status, ok: true }) },
+					{
+						type: 'text',
+						text: JSON.stringify({
+							commentId: comment.id,
+							taskId,
+							status: taskStatus.to,
+							yourStatus: check.to,
+							ok: true,
+						}),
+					},
 				],
 			};
 		},
 	);
 
-	// --- tool: post_task_result ---
+	// --- tool: get_task_history ---
 	server.tool(
-		'post_task_result',
-		'Submit your result for a task and automatically move it to review. Call this when you are done with the task.',
+		'get_task_history',
+		'Returns the structured history of a task: creation, status changes, results, approvals, rejections and other events, oldest first.',
 		{
 			taskId: z.string().describe('The ID of the task'),
-			content: z
+			kind: z
 				.string()
-				.describe('Your result text / summary of what you did'),
-			filePath: z
+				.optional()
+				.describe(
+					'Optional: only return events of this kind (e.g. "status_changed", "rejected")',
+				),
+		},
+		async ({ taskId, kind }) => {
+			if (!getTask(taskId)) {
+				return {
+					content: [
+						{ type: 'text', text: JSON.stringify({ error: 'Task not found' }) },
+					],
+					isError: true,
+				};
+			}
+
+			const events = getTaskEvents(taskId, { kind });
+			return {
+				content: [{ type: 'text', text: JSON.stringify({ taskId, events }) }],
+			};
+		},
+	);
+
+	// --- tool: create_subtask ---
+	server.tool(
+		'create_subtask',
+		'Break a task you are assigned to into a subtask and delegate it to one or more agents (yourself by default). Assignees are notified like for any new task. The parent task cannot go to review until all its subtasks are done.',
+		{
+			parentTaskId: z.string().describe('The ID of the parent task'),
+			title: z.string().describe('Title of the subtask'),
+			description: z
 				.string()
 				.optional()
+				.describe('Optional: what needs to be done'),
+			assigneeIds: z
+				.array(z.string())
+				.optional()
+				.describe('Optional: agent IDs to assign. Defaults to yourself.'),
+			blockedBy: z
+				.array(z.string())
+				.optional()
 				.describe(
-					'Optional: path to a file you wrote under /shared/tasks/{taskId}/',
+					'Optional: IDs of tasks that must be done before this one can start',
 				),
 		},
-		async ({ taskId, content, filePath }) => {
+		async ({ parentTaskId, title, description, assigneeIds, blockedBy }) => {
 			const agentId = getCallerAgentId();
-			const task = getTask(taskId);
+			const parent = getTask(parentTaskId);
 
-			if (!task) {
+			if (!parent) {
 				return {
 					content: [
-						{ type: 'text', text: JSON.stringify({ error: 'Task not found' }) },
+						{
+							type: 'text',
+							text: JSON.stringify({ error: 'Parent task not found' }),
+						},
 					],
 					isError: true,
 				};
 			}
 
-			const assignees = getTaskAssignees(taskId);
-			if (!assignees.includes(agentId)) {
+			if (parent.archived_at !== null) {
+				return workflowError({
+					ok: false,
+					code: 'ARCHIVED',
+					error: WORKFLOW_ERRORS.ARCHIVED,
+				});
+			}
+
+			if (!getTaskAssignees(parentTaskId).includes(agentId)) {
 				return {
 					content: [
 						{
 							type: 'text',
 							text: JSON.stringify({
-								error: 'You are not assigned to this task',
+								error: 'You are not assigned to the parent task',
 							}),
 						},
 					],
@@ -202,32 +605,123 @@ export function createMcpServer(): McpServer {
 				};
 			}
 
-			// Save result
-			const result = addTaskResult(taskId, agentId, content, filePath ?? null);
+			const dependencyError = findDependencyError(null, blockedBy ?? []);
+			if (dependencyError) {
+				return {
+					content: [
+						{ type: 'text', text: JSON.stringify({ error: dependencyError }) },
+					],
+					isError: true,
+				};
+			}
 
-			// Move to review
-			updateTaskStatus(taskId, 'review');
+			const assignees = [
+				...new Set(
+					assigneeIds && assigneeIds.length > 0 ? assigneeIds : [agentId],
+				),
+			];
+			const task = createTask(title, description ?? null, assignees, {
+				blockedBy: blockedBy ?? [],
+				parentId: parentTaskId,
+				boardId: parent.board_id,
+			});
+			const actor = await getAgentActor(agentId);
+			recordTaskEvent(task.id, 'created', actor, {
+				to: task.status,
+				payload: {
+					title,
+					assigneeIds: assignees,
+					blockedBy: blockedBy ?? [],
+					parentId: parentTaskId,
+					boardId: parent.board_id,
+				},
+			});
+			recordTaskEvent(parentTaskId, 'subtask_created', actor, {
+				payload: { subtaskId: task.id, title },
+			});
+			publishTaskCreated(task.id);
+			publishTaskUpdated(...(blockedBy ?? []));
 
-			// Add system comment
-			const agentName = await getAgentName(agentId);
-			addComment(
-				taskId,
-				agentId,
-				'agent',
-				agentName,
-				`[System] ${agentName} submitted a result${filePath ? ` (file: ${filePath})` : ''}. Task is now in review.`,
+			notifyAssignees(task.id, assignees, task.title, task.description).catch(
+				(error) => {
+					console.warn('Failed to notify assignees for task', task.id, error);
+				},
 			);
 
 			return {
 				content: [
 					{
 						type: 'text',
-						text: JSON.stringify({
-							resultId: result.id,
-							taskId,
-							status: 'review',
-							ok: true,
-						}),
+						text: JSON.stringify({ task, assignees, ok: true }),
+					},
+				],
+			};
+		},
+	);
+
+	// --- tool: list_subtasks ---
+	server.tool(
+		'list_subtasks',
+		'Returns the subtask tree of a task, with the status and assignees of each subtask.',
+		{
+			taskId: z.string().describe('The ID of the parent task'),
+		},
+		async ({ taskId }) => {
+			if (!getTask(taskId)) {
+				return {
+					content: [
+						{ type: 'text', text: JSON.stringify({ error: 'Task not found' }) },
+					],
+					isError: true,
+				};
+			}
+
+			const subtasks = getSubtaskTree(taskId);
+			return {
+				content: [{ type: 'text', text: JSON.stringify({ taskId, subtasks }) }],
+			};
+		},
+	);
+
+	// --- tool: search_tasks ---
+	server.tool(
+		'search_tasks',
+		'Full-text search over all tasks, comments and results, best matches first. Use it before starting a task to find related prior work.',
+		{
+			query: z.string().describe('Words to search for'),
+			kind: z
+				.enum(SEARCH_KINDS as [SearchKind, ...SearchKind[]])
+				.optional()
+				.describe('Only search tasks, comments or results'),
+			limit: z
+				.number()
+				.int()
+				.min(1)
+				.max(MAX_SEARCH_LIMIT)
+				.optional()
+				.describe(
+					`Number of matches to return (default 10, max ${MAX_SEARCH_LIMIT})`,
+				),
+			offset: z
+				.number()
+				.int()
+				.min(0)
+				.optional()
+				.describe('Number of matches to skip, for paging'),
+		},
+		async ({ query, kind, limit = 10, offset = 0 }) => {
+			const { total, hits } = searchTasks(query, { kind, limit, offset });
+			const matches = hits.map((hit) => ({
+				...hit,
+				snippet: hit.snippet
+					.replaceAll(SNIPPET_START, '**')
+					.replaceAll(SNIPPET_END, '**'),
+			}));
+			return {
+				content: [
+					{
+						type: 'text',
+						text: JSON.stringify({ total, offset, matches }),
 					},
 				],
 			};
@@ -237,15 +731,75 @@ export function createMcpServer(): McpServer {
 	return server;
 }
 
+function workflowError(
+	check: Extract<TransitionCheck | ClaimResult, { ok: false }>,
+) {
+	return {
+		content: [
+			{
+				type: 'text' as const,
+				text: JSON.stringify({
+					error: check.error,
+					code: check.code,
+					...check.details,
+				}),
+			},
+		],
+		isError: true,
+	};
+}
+
 // ---------------------------------------------------------------------------
 // Start MCP HTTP server on port 8821
 // ---------------------------------------------------------------------------
 
+interface McpSession {
+	transport: WebStandardStreamableHTTPServerTransport;
+	agentId: string;
+	// Only the token that opened the session may use it
+	tokenFingerprint: string;
+	createdAt: number;
+	lastSeenAt: number;
+}
+
+function jsonRpcError(
+	status: number,
+	message: string,
+	headers: Record<string, string> = {},
+): Response {
+	return Response.json(
+		{ jsonrpc: '2.0', error: { code: -32001, message }, id: null },
+		{ status, headers },
+	);
+}
+
+function unauthorized(message: string): Response {
+	return jsonRpcError(401, message, { 'WWW-Authenticate': 'Bearer' });
+}
+
 export async function startMcpServer(): Promise<void> {
-	const sessions = new Map<
-		string,
-		{ transport: WebStandardStreamableHTTPServerTransport; agentId: string }
-	>();
+	const sessions = new Map<string, McpSession>();
+
+	const closeSession = async (sessionId: string) => {
+		const session = sessions.get(sessionId);
+		if (!session) return;
+		sessions.delete(sessionId);
+		await session.transport.close().catch(() => {});
+	};
+
+	// Clients that disappear without sending DELETE would otherwise keep their
+	// session forever
+	setInterval(() => {
+		const now = Date.now();
+		for (const [sessionId, session] of sessions) {
+			if (
+				now - session.lastSeenAt > SESSION_IDLE_TIMEOUT_MS ||
+				now - session.createdAt > SESSION_MAX_AGE_MS
+			) {
+				closeSession(sessionId);
+			}
+		}
+	}, SESSION_SWEEP_INTERVAL_MS);
 
 	Bun.serve({
 		port: 8821,
@@ -255,30 +809,47 @@ export async function startMcpServer(): Promise<void> {
 				return new Response('Not found', { status: 404 });
 			}
 
-			const agentIdFromUrl = url.searchParams.get('agent_id') ?? 'unknown';
+			const token = bearerToken(req);
+			if (!token) return unauthorized('Missing bearer token');
 			const sessionId = req.headers.get('mcp-session-id');
 
-			if (req.method === 'DELETE' && sessionId) {
-				sessions.delete(sessionId);
-				return new Response(null, { status: 204 });
-			}
-
-			if (sessionId && sessions.has(sessionId)) {
+			if (sessionId) {
 				const session = sessions.get(sessionId);
-				if (!session) {
-					return new Response(null, { status: 404 });
+				// Unknown or expired: the client has to initialize a new session
+				if (!session) return jsonRpcError(404, 'Session not found');
+				if (session.tokenFingerprint !== tokenFingerprint(token)) {
+					return jsonRpcError(403, 'The session belongs to another token');
 				}
-				const { transport, agentId: sessionAgentId } = session;
-				return agentIdStorage.run(sessionAgentId, () =>
-					transport.handleRequest(req),
+				if (req.method === 'DELETE') {
+					await closeSession(sessionId);
+					return new Response(null, { status: 204 });
+				}
+				session.lastSeenAt = Date.now();
+				return agentIdStorage.run(session.agentId, () =>
+					session.transport.handleRequest(req),
 				);
 			}
 
+			const agent = await verifyAgentToken(token);
+			if (!agent) return unauthorized('Invalid or expired token');
+			// agent_id is optional; when given it must match the token
+			const requestedAgentId = url.searchParams.get('agent_id');
+			if (requestedAgentId && requestedAgentId !== agent.id) {
+				return jsonRpcError(403, 'The token was not issued for this agent_id');
+			}
+
 			const transport = new WebStandardStreamableHTTPServerTransport({
 				sessionIdGenerator: () => crypto.randomUUID(),
 				enableJsonResponse: true,
 				onsessioninitialized: (sid) => {
-					sessions.set(sid, { transport, agentId: agentIdFromUrl });
+					const now = Date.now();
+					sessions.set(sid, {
+						transport,
+						agentId: agent.id,
+						tokenFingerprint: tokenFingerprint(token),
+						createdAt: now,
+						lastSeenAt: now,
+					});
 				},
 			});
 
@@ -289,11 +860,11 @@ export async function startMcpServer(): Promise<void> {
 			const server = createMcpServer();
 			await server.connect(transport);
 
-			return agentIdStorage.run(agentIdFromUrl, () =>
-				transport.handleRequest(req),
-			);
+			return agentIdStorage.run(agent.id, () => transport.handleRequest(req));
 		},
 	});
 
-	console.log('[MCP] Server listening on :8821');
+	console.log(
+		`[MCP] Server listening on :8821 (tokens verified by ${MCP_AUTH_VERIFIER})`,
+	);
 }
@@ -0,0 +1,38 @@
+import { Database } from 'bun:sqlite';
+import { DB_PATH } from './db';
+import {
+	formatMigrationStatus,
+	getMigrationStatus,
+	runMigrations,
+} from './migrations';
+
+// Usage: bun run src/migrate.ts [--status | --dry-run]
+//   --status   print applied and pending migrations
+//   --dry-run  run pending migrations inside a transaction, then roll back
+//   (no flag)  apply pending migrations
+
+const args = new Set(process.argv.slice(2));
+const db = new Database(DB_PATH);
+db.exec('PRAGMA foreign_keys=ON;');
+
+try {
+	if (args.has('--status')) {
+		console.log(formatMigrationStatus(getMigrationStatus(db)));
+	} else if (args.has('--dry-run')) {
+		const status = runMigrations(db, { dryRun: true });
+		console.log(formatMigrationStatus(status));
+		console.log(
+			status.pending.length === 0
+				? 'Nothing to apply.'
+				: `Dry run OK: ${status.pending.length} migration(s) would be applied.`,
+		);
+	} else {
+		const status = runMigrations(db);
+		console.log(formatMigrationStatus(status));
+	}
+} catch (err) {
+	console.error(err instanceof Error ? err.message : err);
+	process.exitCode = 1;
+} finally {
+	db.close();
+}
@@ -0,0 +1,582 @@
+import type { Database } from 'bun:sqlite';
+
+export interface Migration {
+	version: number;
+	name: string;
+	up: (db: Database) => void;
+}
+
+export interface MigrationStatus {
+	currentVersion: number;
+	latestVersion: number;
+	applied: { version: number; name: string; applied_at: number }[];
+	pending: { version: number; name: string }[];
+}
+
+function hasColumn(db: Database, table: string, column: string): boolean {
+	const columns = db.query(`PRAGMA table_info(${table})`).all() as {
+		name: string;
+	}[];
+	return columns.some((c) => c.name === column);
+}
+
+// ---------------------------------------------------------------------------
+// Migrations — append only, never edit one that has shipped
+// ---------------------------------------------------------------------------
+
+export const migrations: Migration[] = [
+	{
+		version: 1,
+		name: 'initial schema',
+		up: (db) => {
+			// IF NOT EXISTS: installs that predate migrations already have these
+			db.exec(`
+        CREATE TABLE IF NOT EXISTS tasks (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          description TEXT,
+          status TEXT NOT NULL DEFAULT 'todo',
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS task_assignees (
+          task_id TEXT NOT NULL,
+          agent_id TEXT NOT NULL,
+          PRIMARY KEY (task_id, agent_id)
+        );
+
+        CREATE TABLE IF NOT EXISTS task_comments (
+          id TEXT PRIMARY KEY,
+          task_id TEXT NOT NULL,
+          author_id TEXT NOT NULL,
+          author_type TEXT NOT NULL,
+          author_name TEXT NOT NULL,
+          content TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS task_results (
+          id TEXT PRIMARY KEY,
+          task_id TEXT NOT NULL,
+          agent_id TEXT NOT NULL,
+          content TEXT NOT NULL,
+          file_path TEXT,
+          created_at INTEGER NOT NULL
+        );
+      `);
+		},
+	},
+	{
+		version: 2,
+		name: 'task dependencies',
+		up: (db) => {
+			db.exec(`
+        CREATE TABLE IF NOT EXISTS task_dependencies (
+          task_id TEXT NOT NULL,
+          blocked_by_id TEXT NOT NULL,
+          PRIMARY KEY (task_id, blocked_by_id)
+        );
+      `);
+		},
+	},
+	{
+		version: 3,
+		name: 'subtask parent link',
+		up: (db) => {
+			if (!hasColumn(db, 'tasks', 'parent_id')) {
+				db.exec('ALTER TABLE tasks ADD COLUMN parent_id TEXT');
+			}
+		},
+	},
+	{
+		version: 4,
+		name: 'foreign keys and indexes',
+		up: (db) => {
+			// SQLite cannot add constraints to existing tables, so each table is
+			// rebuilt and its rows copied over. Orphaned rows left behind by
+			// earlier versions are dropped instead of failing the constraint.
+			db.exec(`
+        CREATE TABLE tasks_new (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          description TEXT,
+          status TEXT NOT NULL DEFAULT 'todo',
+          parent_id TEXT REFERENCES tasks(id) ON DELETE SET NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+        INSERT INTO tasks_new (id, title, description, status, parent_id, created_at, updated_at)
+          SELECT id, title, description, status,
+            CASE WHEN parent_id IN (SELECT id FROM tasks) THEN parent_id END,
+            created_at, updated_at
+          FROM tasks;
+        DROP TABLE tasks;
+        ALTER TABLE tasks_new RENAME TO tasks;
+
+        CREATE TABLE task_assignees_new (
+          task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+          agent_id TEXT NOT NULL,
+          PRIMARY KEY (task_id, agent_id)
+        );
+        INSERT INTO task_assignees_new (task_id, agent_id)
+          SELECT task_id, agent_id FROM task_assignees
+          WHERE task_id IN (SELECT id FROM tasks);
+        DROP TABLE task_assignees;
+        ALTER TABLE task_assignees_new RENAME TO task_assignees;
+
+        CREATE TABLE task_comments_new (
+          id TEXT PRIMARY KEY,
+          task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+          author_id TEXT NOT NULL,
+          author_type TEXT NOT NULL,
+          author_name TEXT NOT NULL,
+          content TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+        INSERT INTO task_comments_new (id, task_id, author_id, author_type, author_name, content, created_at)
+          SELECT id, task_id, author_id, author_type, author_name, content, created_at
+          FROM task_comments WHERE task_id IN (SELECT id FROM tasks);
+        DROP TABLE task_comments;
+        ALTER TABLE task_comments_new RENAME TO task_comments;
+
+        CREATE TABLE task_results_new (
+          id TEXT PRIMARY KEY,
+          task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+          agent_id TEXT NOT NULL,
+          content TEXT NOT NULL,
+          file_path TEXT,
+          created_at INTEGER NOT NULL
+        );
+        INSERT INTO task_results_new (id, task_id, agent_id, content, file_path, created_at)
+          SELECT id, task_id, agent_id, content, file_path, created_at
+          FROM task_results WHERE task_id IN (SELECT id FROM tasks);
+        DROP TABLE task_results;
+        ALTER TABLE task_results_new RENAME TO task_results;
+
+        CREATE TABLE task_dependencies_new (
+          task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+          blocked_by_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+          PRIMARY KEY (task_id, blocked_by_id)
+        );
+        INSERT INTO task_dependencies_new (task_id, blocked_by_id)
+          SELECT task_id, blocked_by_id FROM task_dependencies
+          WHERE task_id IN (SELECT id FROM tasks)
+          AND blocked_by_id IN (SELECT id FROM tasks);
+        DROP TABLE task_dependencies;
+        ALTER TABLE task_dependencies_new RENAME TO task_dependencies;
+
+        CREATE INDEX idx_tasks_parent_id ON tasks(parent_id);
+        CREATE INDEX idx_task_assignees_agent_id ON task_assignees(agent_id);
+        CREATE INDEX idx_task_comments_task_id ON task_comments(task_id, created_at);
+        CREATE INDEX idx_task_results_task_id ON task_results(task_id, created_at);
+        CREATE INDEX idx_task_results_agent_id ON task_results(agent_id);
+        CREATE INDEX idx_task_dependencies_blocked_by_id ON task_dependencies(blocked_by_id);
+      `);
+		},
+	},
+	{
+		version: 5,
+		name: 'task event log',
+		up: (db) => {
+			db.exec(`
+        CREATE TABLE task_events (
+          id TEXT PRIMARY KEY,
+          task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+          kind TEXT NOT NULL,
+          actor_id TEXT NOT NULL,
+          actor_type TEXT NOT NULL,
+          actor_name TEXT NOT NULL,
+          from_status TEXT,
+          to_status TEXT,
+          payload TEXT,
+          created_at INTEGER NOT NULL
+        );
+        CREATE INDEX idx_task_events_task_id ON task_events(task_id, created_at);
+        CREATE INDEX idx_task_events_actor_id ON task_events(actor_id);
+      `);
+		},
+	},
+	{
+		version: 6,
+		name: 'per-assignee status and review quorum',
+		up: (db) => {
+			// Existing assignments start out in the status of their task
+			db.exec(`
+        ALTER TABLE task_assignees ADD COLUMN status TEXT NOT NULL DEFAULT 'todo';
+        ALTER TABLE task_assignees ADD COLUMN updated_at INTEGER;
+        UPDATE task_assignees SET
+          status = (SELECT status FROM tasks WHERE tasks.id = task_assignees.task_id),
+          updated_at = (SELECT updated_at FROM tasks WHERE tasks.id = task_assignees.task_id);
+        ALTER TABLE tasks ADD COLUMN review_quorum INTEGER;
+      `);
+		},
+	},
+	{
+		version: 7,
+		name: 'priority, due dates and labels',
+		up: (db) => {
+			db.exec(`
+        ALTER TABLE tasks ADD COLUMN priority TEXT NOT NULL DEFAULT 'normal';
+        ALTER TABLE tasks ADD COLUMN due_at INTEGER;
+        ALTER TABLE tasks ADD COLUMN overdue_notified_at INTEGER;
+        CREATE INDEX idx_tasks_due_at ON tasks(due_at);
+
+        CREATE TABLE task_labels (
+          task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+          label TEXT NOT NULL,
+          PRIMARY KEY (task_id, label)
+        );
+        CREATE INDEX idx_task_labels_label ON task_labels(label);
+      `);
+		},
+	},
+	{
+		version: 8,
+		name: 'full-text search index',
+		up: (db) => {
+			// One FTS5 row per task, comment and result, kept in sync by triggers
+			// so every write path (and cascading deletes) updates the index.
+			db.exec(`
+        CREATE VIRTUAL TABLE search_index USING fts5(
+          title,
+          body,
+          kind UNINDEXED,
+          ref_id UNINDEXED,
+          task_id UNINDEXED,
+          created_at UNINDEXED,
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+
+        CREATE TRIGGER search_tasks_insert AFTER INSERT ON tasks BEGIN
+          INSERT INTO search_index (title, body, kind, ref_id, task_id, created_at)
+          VALUES (new.title, coalesce(new.description, ''), 'task', new.id, new.id, new.created_at);
+        END;
+        CREATE TRIGGER search_tasks_update AFTER UPDATE OF title, description ON tasks BEGIN
+          UPDATE search_index SET title = new.title, body = coalesce(new.description, '')
+          WHERE kind = 'task' AND ref_id = new.id;
+        END;
+        CREATE TRIGGER search_tasks_delete AFTER DELETE ON tasks BEGIN
+          DELETE FROM search_index WHERE kind = 'task' AND ref_id = old.id;
+        END;
+
+        CREATE TRIGGER search_comments_insert AFTER INSERT ON task_comments BEGIN
+          INSERT INTO search_index (title, body, kind, ref_id, task_id, created_at)
+          VALUES ('', new.content, 'comment', new.id, new.task_id, new.created_at);
+        END;
+        CREATE TRIGGER search_comments_delete AFTER DELETE ON task_comments BEGIN
+          DELETE FROM search_index WHERE kind = 'comment' AND ref_id = old.id;
+        END;
+
+        CREATE TRIGGER search_results_insert AFTER INSERT ON task_results BEGIN
+          INSERT INTO search_index (title, body, kind, ref_id, task_id, created_at)
+          VALUES (coalesce(new.file_path, ''), new.content, 'result', new.id, new.task_id, new.created_at);
+        END;
+        CREATE TRIGGER search_results_delete AFTER DELETE ON task_results BEGIN
+          DELETE FROM search_index WHERE kind = 'result' AND ref_id = old.id;
+        END;
+
+        INSERT INTO search_index (title, body, kind, ref_id, task_id, created_at)
+          SELECT title, coalesce(description, ''), 'task', id, id, created_at FROM tasks;
+        INSERT INTO search_index (title, body, kind, ref_id, task_id, created_at)
+          SELECT '', content, 'comment', id, task_id, created_at FROM task_comments;
+        INSERT INTO search_index (title, body, kind, ref_id, task_id, created_at)
+          SELECT coalesce(file_path, ''), content, 'result', id, task_id, created_at FROM task_results;
+      `);
+		},
+	},
+	{
+		version: 9,
+		name: 'webhooks',
+		up: (db) => {
+			// Deliveries are the retry queue: they outlive restarts and keep no
+			// foreign key to the task, so a deletion can still be announced.
+			db.exec(`
+        CREATE TABLE webhooks (
+          id TEXT PRIMARY KEY,
+          url TEXT NOT NULL,
+          secret TEXT NOT NULL,
+          event_types TEXT NOT NULL DEFAULT '[]',
+          description TEXT,
+          active INTEGER NOT NULL DEFAULT 1,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE webhook_deliveries (
+          id TEXT PRIMARY KEY,
+          webhook_id TEXT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+          event_type TEXT NOT NULL,
+          task_id TEXT,
+          payload TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at INTEGER,
+          last_attempt_at INTEGER,
+          response_status INTEGER,
+          last_error TEXT,
+          created_at INTEGER NOT NULL
+        );
+        CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+        CREATE INDEX idx_webhook_deliveries_webhook_id ON webhook_deliveries(webhook_id, created_at);
+      `);
+		},
+	},
+	{
+		version: 10,
+		name: 'notification outbox',
+		up: (db) => {
+			db.exec(`
+        CREATE TABLE notification_outbox (
+          id TEXT PRIMARY KEY,
+          task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+          agent_id TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          content TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at INTEGER,
+          last_attempt_at INTEGER,
+          delivered_at INTEGER,
+          last_error TEXT,
+          created_at INTEGER NOT NULL
+        );
+        CREATE INDEX idx_notification_outbox_due ON notification_outbox(status, next_attempt_at);
+        CREATE INDEX idx_notification_outbox_task_id ON notification_outbox(task_id, created_at);
+      `);
+		},
+	},
+	{
+		version: 11,
+		name: 'task schedules',
+		up: (db) => {
+			// Each schedule runs on either a cron expression or a fixed interval
+			db.exec(`
+        CREATE TABLE task_schedules (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          description TEXT,
+          assignee_ids TEXT NOT NULL,
+          priority TEXT NOT NULL DEFAULT 'normal',
+          labels TEXT NOT NULL DEFAULT '[]',
+          review_quorum INTEGER,
+          cron TEXT,
+          interval_minutes INTEGER,
+          active INTEGER NOT NULL DEFAULT 1,
+          next_run_at INTEGER,
+          last_run_at INTEGER,
+          last_task_id TEXT REFERENCES tasks(id) ON DELETE SET NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+        CREATE INDEX idx_task_schedules_due ON task_schedules(active, next_run_at);
+      `);
+		},
+	},
+	{
+		version: 12,
+		name: 'task templates',
+		up: (db) => {
+			db.exec(`
+        CREATE TABLE task_templates (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE,
+          title TEXT NOT NULL,
+          description TEXT,
+          assignee_ids TEXT NOT NULL DEFAULT '[]',
+          labels TEXT NOT NULL DEFAULT '[]',
+          priority TEXT NOT NULL DEFAULT 'normal',
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+      `);
+		},
+	},
+	{
+		version: 13,
+		name: 'task artifacts',
+		up: (db) => {
+			db.exec(`
+        CREATE TABLE task_artifacts (
+          id TEXT PRIMARY KEY,
+          task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+          result_id TEXT NOT NULL REFERENCES task_results(id) ON DELETE CASCADE,
+          path TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          mime_type TEXT NOT NULL,
+          sha256 TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+        CREATE INDEX idx_task_artifacts_task_id ON task_artifacts(task_id, created_at);
+        CREATE INDEX idx_task_artifacts_result_id ON task_artifacts(result_id);
+      `);
+		},
+	},
+	{
+		version: 14,
+		name: 'stale task watchdog',
+		up: (db) => {
+			db.exec(`
+        ALTER TABLE tasks ADD COLUMN stale_reminded_at INTEGER;
+        ALTER TABLE tasks ADD COLUMN stale_flagged_at INTEGER;
+      `);
+		},
+	},
+	{
+		version: 15,
+		name: 'boards',
+		up: (db) => {
+			// Existing tasks and schedules move to a default board with the
+			// columns the board used to have
+			const columns = JSON.stringify([
+				{ name: 'To do', statuses: ['todo'] },
+				{ name: 'In progress', statuses: ['in_progress', 'needs_input'] },
+				{ name: 'Review', statuses: ['review'] },
+				{ name: 'Done', statuses: ['done'] },
+			]);
+			const now = Date.now();
+			db.exec(`
+        CREATE TABLE boards (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE,
+          description TEXT,
+          columns TEXT NOT NULL,
+          default_assignee_ids TEXT NOT NULL DEFAULT '[]',
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+      `);
+			db.run(
+				"INSERT INTO boards (id, name, columns, created_at, updated_at) VALUES ('default', 'Tasks', ?, ?, ?)",
+				[columns, now, now],
+			);
+			db.exec(`
+        ALTER TABLE tasks ADD COLUMN board_id TEXT NOT NULL DEFAULT 'default' REFERENCES boards(id);
+        CREATE INDEX idx_tasks_board_id ON tasks(board_id, created_at);
+        ALTER TABLE task_schedules ADD COLUMN board_id TEXT NOT NULL DEFAULT 'default' REFERENCES boards(id);
+      `);
+		},
+	},
+	{
+		version: 16,
+		name: 'task pool',
+		up: (db) => {
+			db.exec(`
+        CREATE TABLE task_capabilities (
+          task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+          capability TEXT NOT NULL,
+          PRIMARY KEY (task_id, capability)
+        );
+        ALTER TABLE tasks ADD COLUMN claimed_by TEXT;
+        ALTER TABLE tasks ADD COLUMN claimed_at INTEGER;
+        CREATE INDEX idx_tasks_claimed_by ON tasks(claimed_by);
+      `);
+		},
+	},
+	{
+		version: 17,
+		name: 'task archive',
+		up: (db) => {
+			db.exec(`
+        ALTER TABLE tasks ADD COLUMN archived_at INTEGER;
+        CREATE INDEX idx_tasks_archived_at ON tasks(archived_at);
+      `);
+		},
+	},
+];
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+
+function ensureVersionTable(db: Database) {
+	db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    );
+  `);
+}
+
+export function getMigrationStatus(db: Database): MigrationStatus {
+	ensureVersionTable(db);
+	const applied = db
+		.query(
+			'SELECT version, name, applied_at FROM schema_version ORDER BY version ASC',
+		)
+		.all() as MigrationStatus['applied'];
+	const appliedVersions = new Set(applied.map((m) => m.version));
+	const pending = migrations
+		.filter((m) => !appliedVersions.has(m.version))
+		.map(({ version, name }) => ({ version, name }));
+
+	return {
+		currentVersion: applied.at(-1)?.version ?? 0,
+		latestVersion: migrations.at(-1)?.version ?? 0,
+		applied,
+		pending,
+	};
+}
+
+// Applies pending migrations in order, each in its own transaction. With
+// `dryRun`, every pending migration is executed and then rolled back, so a
+// broken migration surfaces without touching the database.
+export function runMigrations(
+	db: Database,
+	{ dryRun = false }: { dryRun?: boolean } = {},
+): MigrationStatus {
+	const status = getMigrationStatus(db);
+	if (status.pending.length === 0) return status;
+
+	// Table rebuilds need constraints off; this pragma is a no-op inside a transaction
+	db.exec('PRAGMA foreign_keys=OFF;');
+	try {
+		if (dryRun) db.exec('BEGIN');
+		for (const { version } of status.pending) {
+			const migration = migrations.find((m) => m.version === version);
+			if (!migration) continue;
+
+			if (!dryRun) db.exec('BEGIN');
+			try {
+				migration.up(db);
+				const violations = db.query('PRAGMA foreign_key_check').all();
+				if (violations.length > 0) {
+					throw new Error(
+						`${violations.length} foreign key violation(s) after migration`,
+					);
+				}
+				db.run(
+					'INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)',
+					[migration.version, migration.name, Date.now()],
+				);
+				if (!dryRun) db.exec('COMMIT');
+			} catch (err) {
+				db.exec('ROLLBACK');
+				throw new Error(
+					`Migration ${migration.version} (${migration.name}) failed: ${err instanceof Error ? err.message : String(err)}`,
+				);
+			}
+		}
+		if (dryRun) db.exec('ROLLBACK');
+	} finally {
+		db.exec('PRAGMA foreign_keys=ON;');
+	}
+
+	return dryRun ? status : getMigrationStatus(db);
+}
+
+export function formatMigrationStatus(status: MigrationStatus): string {
+	const lines = [
+		`Schema version: ${status.currentVersion} (latest: ${status.latestVersion})`,
+	];
+	for (const m of status.applied) {
+		lines.push(
+			`  [applied] ${m.version} ${m.name} (${new Date(m.applied_at).toISOString()})`,
+		);
+	}
+	for (const m of status.pending) {
+		lines.push(`  [pending] ${m.version} ${m.name}`);
+	}
+	return lines.join('\n');
+}
@@ -0,0 +1,471 @@
+import { publishNotification } from './board-events';
+import {
+	getDueNotifications,
+	getNotification,
+	getOpenBlockers,
+	getTask,
+	getTaskAssignees,
+	getTaskAssignments,
+	getTaskCapabilities,
+	getUnremindedOverdueTasks,
+	markOverdueNotified,
+	type NotificationKind,
+	type NotificationRow,
+	queueNotifications,
+	recordNotificationAttempt,
+	recordTaskEvent,
+	type StaleCandidate,
+	SYSTEM_ACTOR,
+	type TaskRow,
+} from './db';
+import { isEligible, POOL_BROADCAST } from './pool';
+
+export const FETCH_TIMEOUT_MS = 5000;
+const OVERDUE_CHECK_INTERVAL_MS = 60_000;
+const OUTBOX_POLL_INTERVAL_MS = 2000;
+const OUTBOX_BATCH_SIZE = 20;
+const OUTBOX_MAX_ATTEMPTS = 10;
+const OUTBOX_BASE_RETRY_DELAY_MS = 5000;
+const OUTBOX_MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+const MAX_ERROR_LENGTH = 500;
+
+export const NANO_API_URL =
+	process.env.NANO_API_URL ?? 'https://host.docker.internal:3000';
+const NANO_INTERNAL_TOKEN = process.env.NANO_INTERNAL_TOKEN;
+if (!NANO_INTERNAL_TOKEN)
+	throw new Error('NANO_INTERNAL_TOKEN environment variable must be set');
+
+export function nanoHeaders() {
+	return {
+		'Content-Type': 'application/json',
+		Authorization: `Bearer ${NANO_INTERNAL_TOKEN}`,
+	};
+}
+
+// ---------------------------------------------------------------------------
+// Push helpers
+// ---------------------------------------------------------------------------
+
+// Throws when NanoFleet cannot be reached or does not accept the message
+export async function pushToAgent(
+	agentId: string,
+	content: string,
+): Promise<void> {
+	const res = await fetch(
+		`${NANO_API_URL}/internal/agents/${agentId}/messages`,
+		{
+			method: 'POST',
+			headers: nanoHeaders(),
+			body: JSON.stringify({ content }),
+			signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+		},
+	);
+	if (!res.ok) throw new Error(`HTTP ${res.status}`);
+}
+
+// Delay before the next attempt once `attempts` have failed: base, 2×base,
+// 4×base… capped at `maxMs`
+export function backoffDelay(
+	attempts: number,
+	baseMs: number,
+	maxMs: number,
+): number {
+	return Math.min(baseMs * 2 ** (attempts - 1), maxMs);
+}
+
+// ---------------------------------------------------------------------------
+// Outbox
+// ---------------------------------------------------------------------------
+
+// Agent pushes are written to notification_outbox first and sent from there,
+// so a NanoFleet outage or a restarting agent only delays them. Each message
+// ends up delivered, or failed after OUTBOX_MAX_ATTEMPTS; a human can resend.
+
+async function sendNotification(notification: NotificationRow) {
+	let error: string | null = null;
+	try {
+		await pushToAgent(notification.agent_id, notification.content);
+	} catch (err) {
+		error = err instanceof Error ? err.message : String(err);
+	}
+
+	const attempts = notification.attempts + 1;
+	if (!error) {
+		recordNotificationAttempt(notification.id, {
+			status: 'delivered',
+			nextAttemptAt: null,
+			error: null,
+		});
+	} else if (attempts >= OUTBOX_MAX_ATTEMPTS) {
+		recordNotificationAttempt(notification.id, {
+			status: 'failed',
+			nextAttemptAt: null,
+			error: error.slice(0, MAX_ERROR_LENGTH),
+		});
+		console.warn(
+			`[tasks] Giving up on push to agent ${notification.agent_id} after ${attempts} attempts: ${error}`,
+		);
+	} else {
+		recordNotificationAttempt(notification.id, {
+			status: 'pending',
+			nextAttemptAt:
+				Date.now() +
+				backoffDelay(
+					attempts,
+					OUTBOX_BASE_RETRY_DELAY_MS,
+					OUTBOX_MAX_RETRY_DELAY_MS,
+				),
+			error: error.slice(0, MAX_ERROR_LENGTH),
+		});
+	}
+
+	const updated = getNotification(notification.id);
+	if (updated) publishNotification(updated);
+}
+
+let processingOutbox = false;
+
+export async function processNotificationOutbox(): Promise<void> {
+	if (processingOutbox) return;
+	processingOutbox = true;
+	try {
+		const due = getDueNotifications(Date.now(), OUTBOX_BATCH_SIZE);
+		await Promise.all(due.map(sendNotification));
+	} catch (err) {
+		console.warn('[tasks] Failed to process the notification outbox:', err);
+	} finally {
+		processingOutbox = false;
+	}
+}
+
+export function startNotificationOutbox() {
+	setInterval(() => {
+		processNotificationOutbox();
+	}, OUTBOX_POLL_INTERVAL_MS);
+}
+
+// Queues one push per agent and sends what it can right away. Inside a
+// batch, the push is held back until the batch ends.
+async function notify(
+	taskId: string,
+	kind: NotificationKind,
+	agentIds: string[],
+	content: string,
+): Promise<void> {
+	if (agentIds.length === 0) return;
+	if (batch) {
+		batch.held.push({ taskId, kind, agentIds, content });
+		return;
+	}
+	for (const notification of queueNotifications(
+		taskId,
+		kind,
+		agentIds,
+		content,
+	)) {
+		publishNotification(notification);
+	}
+	await processNotificationOutbox();
+}
+
+// ---------------------------------------------------------------------------
+// Batches
+// ---------------------------------------------------------------------------
+
+interface HeldPush {
+	taskId: string;
+	kind: NotificationKind;
+	agentIds: string[];
+	content: string;
+}
+
+interface Batch {
+	held: HeldPush[];
+	// Fetched before the batch starts, so pool announcements are held back
+	// with the other pushes instead of waiting on NanoFleet
+	runningAgentIds: string[];
+}
+
+// The running batch, null outside of one
+let batch: Batch | null = null;
+
+// Runs `run` with the pushes it triggers held back, then sends each agent a
+// single message: its only push as it is, or a summary of all of them. The
+// summary is recorded on the first task it covers. Nothing is sent when
+// `run` throws, so a rolled-back batch stays silent; neither are pushes about
+// tasks that no longer exist. `run` must not await, or the pushes made after
+// its first await are sent on their own.
+export async function batchNotifications<T>(run: () => T): Promise<T> {
+	let runningAgentIds: string[] = [];
+	if (POOL_BROADCAST) {
+		try {
+			runningAgentIds = await fetchRunningAgentIds();
+		} catch (error) {
+			console.warn(
+				'Failed to list running agents for pool announcements',
+				error,
+			);
+		}
+	}
+
+	const held: HeldPush[] = [];
+	batch = { held, runningAgentIds };
+	let result: T;
+	try {
+		result = run();
+	} finally {
+		batch = null;
+	}
+
+	const byAgent = new Map<string, HeldPush[]>();
+	for (const push of held.filter((p) => getTask(p.taskId))) {
+		for (const agentId of push.agentIds) {
+			byAgent.set(agentId, [...(byAgent.get(agentId) ?? []), push]);
+		}
+	}
+	for (const [agentId, pushes] of byAgent) {
+		const [first] = pushes;
+		const queued =
+			pushes.length === 1
+				? queueNotifications(first.taskId, first.kind, [agentId], first.content)
+				: queueNotifications(
+						first.taskId,
+						'summary',
+						[agentId],
+						[
+							`[${pushes.length} task updates]`,
+							`Several of your tasks changed at once. Each update follows.`,
+							...pushes.map((p) => `\n---\n\n${p.content}`),
+						].join('\n'),
+					);
+		for (const notification of queued) publishNotification(notification);
+	}
+	if (byAgent.size > 0) processNotificationOutbox();
+	return result;
+}
+
+// The number of pushes held so far by the running batch, to rewind to when
+// the work that followed is rolled back
+export function markHeldPushes(): number {
+	return batch?.held.length ?? 0;
+}
+
+// Drops the pushes held since `mark`, so undone changes are not announced
+export function rewindHeldPushes(mark: number): void {
+	batch?.held.splice(mark);
+}
+
+// ---------------------------------------------------------------------------
+// Task notifications
+// ---------------------------------------------------------------------------
+
+export async function notifyAssignees(
+	taskId: string,
+	assigneeIds: string[],
+	title: string,
+	description: string | null,
+): Promise<void> {
+	// Blocked tasks are announced later, once their last blocker is approved
+	if (getOpenBlockers(taskId).length > 0) return;
+
+	const content = [
+		`[New task assigned to you]`,
+		`Title: ${title}`,
+		description ? `Description: ${description}` : null,
+		`taskId: ${taskId}`,
+		``,
+		`Use get_task("${taskId}") to see details, then update_task_status("${taskId}", "in_progress") when you start, and post_task_result("${taskId}", yourResult) when done.`,
+	]
+		.filter((l) => l !== null)
+		.join('\n');
+
+	await notify(taskId, 'assigned', assigneeIds, content);
+}
+
+export async function notifyUnassigned(
+	taskId: string,
+	agentIds: string[],
+	title: string,
+): Promise<void> {
+	// The assignment push of a blocked task was never sent
+	if (getOpenBlockers(taskId).length > 0) return;
+
+	const content = [
+		`[You have been unassigned from a task]`,
+		`Title: ${title}`,
+		`taskId: ${taskId}`,
+		``,
+		`Please stop working on it; results you already posted are kept.`,
+	].join('\n');
+
+	await notify(taskId, 'unassigned', agentIds, content);
+}
+
+export async function notifyRejection(
+	taskId: string,
+	assigneeIds: string[],
+	title: string,
+	feedback: string,
+): Promise<void> {
+	const content = [
+		`[Task returned for revision]`,
+		`Title: ${title}`,
+		`taskId: ${taskId}`,
+		``,
+		`Feedback: ${feedback}`,
+		``,
+		`Please revise and call post_task_result("${taskId}", yourResult) again when done.`,
+	].join('\n');
+
+	await notify(taskId, 'rejected', assigneeIds, content);
+}
+
+export async function notifyAnswer(
+	taskId: string,
+	agentIds: string[],
+	title: string,
+	answer: string,
+): Promise<void> {
+	const content = [
+		`[Your question was answered]`,
+		`Title: ${title}`,
+		`taskId: ${taskId}`,
+		``,
+		`Answer: ${answer}`,
+		``,
+		`Please continue, and call post_task_result("${taskId}", yourResult) when done.`,
+	].join('\n');
+
+	await notify(taskId, 'answered', agentIds, content);
+}
+
+// Sends the held-back assignment push for tasks whose last blocker just
+// cleared; pool tasks are announced instead
+export function releaseDependents(tasks: TaskRow[]) {
+	for (const task of tasks) {
+		recordTaskEvent(task.id, 'unblocked', SYSTEM_ACTOR);
+		const assigneeIds = getTaskAssignees(task.id);
+		if (assigneeIds.length === 0) {
+			announcePoolTask(task).catch((error) => {
+				console.warn('Failed to announce pool task', task.id, error);
+			});
+			continue;
+		}
+		notifyAssignees(task.id, assigneeIds, task.title, task.description).catch(
+			(error) => {
+				console.warn('Failed to notify assignees for task', task.id, error);
+			},
+		);
+	}
+}
+
+// ---------------------------------------------------------------------------
+// Pool announcements
+// ---------------------------------------------------------------------------
+
+// IDs of the running agents, as listed by NanoFleet
+async function fetchRunningAgentIds(): Promise<string[]> {
+	const res = await fetch(`${NANO_API_URL}/internal/agents`, {
+		headers: nanoHeaders(),
+		signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+	});
+	if (!res.ok) throw new Error(`HTTP ${res.status}`);
+	const data = (await res.json()) as { agents?: unknown };
+	if (!Array.isArray(data.agents)) return [];
+	return (data.agents as { id?: unknown; status?: unknown }[])
+		.filter((a) => a.status === 'running' && typeof a.id === 'string')
+		.map((a) => a.id as string);
+}
+
+// With POOL_BROADCAST, tells the running agents that could claim a new pool
+// task about it. Blocked tasks are announced once unblocked.
+export async function announcePoolTask(task: TaskRow): Promise<void> {
+	if (!POOL_BROADCAST || getOpenBlockers(task.id).length > 0) return;
+
+	const capabilities = getTaskCapabilities(task.id);
+	// Inside a batch, the announcement is held back like any other push
+	const runningAgentIds = batch
+		? batch.runningAgentIds
+		: await fetchRunningAgentIds();
+	const agentIds = runningAgentIds.filter((agentId) =>
+		isEligible(agentId, capabilities),
+	);
+	const content = [
+		`[New task available]`,
+		`Title: ${task.title}`,
+		task.description ? `Description: ${task.description}` : null,
+		`Priority: ${task.priority}`,
+		capabilities.length > 0 ? `Requires: ${capabilities.join(', ')}` : null,
+		`taskId: ${task.id}`,
+		``,
+		`Nobody is assigned to this task yet. If you are free, call claim_task("${task.id}") to take it; another agent may claim it first.`,
+	]
+		.filter((l) => l !== null)
+		.join('\n');
+
+	await notify(task.id, 'pool', agentIds, content);
+}
+
+// ---------------------------------------------------------------------------
+// Overdue reminders
+// ---------------------------------------------------------------------------
+
+export async function notifyOverdue(
+	task: TaskRow,
+	assigneeIds: string[],
+): Promise<void> {
+	const content = [
+		`[Task overdue]`,
+		`Title: ${task.title}`,
+		`Due: ${new Date(task.due_at ?? 0).toISOString()}`,
+		`taskId: ${task.id}`,
+		``,
+		`Please finish it and call post_task_result("${task.id}", yourResult), or comment on the task if you are stuck.`,
+	].join('\n');
+
+	await notify(task.id, 'overdue', assigneeIds, content);
+}
+
+export async function notifyStale(
+	task: StaleCandidate,
+	agentIds: string[],
+): Promise<void> {
+	const content = [
+		`[Task waiting on you]`,
+		`Title: ${task.title}`,
+		task.description ? `Description: ${task.description}` : null,
+		`Status: ${task.status}`,
+		`Last activity: ${new Date(task.last_activity_at).toISOString()}`,
+		`taskId: ${task.id}`,
+		``,
+		`Nothing has happened on this task for a while. Use get_task("${task.id}") to pick it up again, update_task_status("${task.id}", "in_progress") if you have not started, and post_task_result("${task.id}", yourResult) when done. Use ask_human if you are stuck.`,
+	]
+		.filter((l) => l !== null)
+		.join('\n');
+
+	await notify(task.id, 'stale', agentIds, content);
+}
+
+// Each overdue task is announced once; changing its due date re-arms it.
+// Assignees who already submitted their part are left alone.
+export function remindOverdueTasks(now = Date.now()) {
+	for (const task of getUnremindedOverdueTasks(now)) {
+		markOverdueNotified(task.id, now);
+		const assigneeIds = getTaskAssignments(task.id)
+			.filter((a) => a.status === 'todo' || a.status === 'in_progress')
+			.map((a) => a.agent_id);
+		if (assigneeIds.length === 0) continue;
+
+		recordTaskEvent(task.id, 'overdue_reminder', SYSTEM_ACTOR, {
+			payload: { dueAt: task.due_at, agentIds: assigneeIds },
+		});
+		notifyOverdue(task, assigneeIds).catch((error) => {
+			console.warn('Failed to send overdue reminder for task', task.id, error);
+		});
+	}
+}
+
+export function startOverdueReminders() {
+	remindOverdueTasks();
+	setInterval(() => remindOverdueTasks(), OVERDUE_CHECK_INTERVAL_MS);
+}
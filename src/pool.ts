@@ -0,0 +1,178 @@
+import {
+	claimPoolTask,
+	countOpenClaims,
+	getCapabilitiesByTask,
+	getOpenBlockers,
+	getPoolTasks,
+	getTask,
+	getTaskAssignees,
+	getTaskCapabilities,
+	type TaskRow,
+} from './db';
+
+// Tasks created without assignees wait in a pool. Agents list the ones they
+// are eligible for and claim them: an agent is eligible when it has every
+// capability the task requires (AGENT_CAPABILITIES) and holds fewer open
+// claimed tasks than its limit (POOL_CLAIM_LIMIT, POOL_CLAIM_LIMITS).
+
+// "agentId=capability,capability;agentId=capability"
+function parseAgentCapabilities(value: string): Map<string, string[]> {
+	const capabilities = new Map<string, string[]>();
+	for (const entry of value.split(';').map((e) => e.trim())) {
+		if (!entry) continue;
+		const [agentId, list = ''] = entry.split('=').map((p) => p.trim());
+		if (!agentId || !entry.includes('=')) {
+			throw new Error(
+				'AGENT_CAPABILITIES entries must look like "agentId=capability,capability", separated by ";"',
+			);
+		}
+		capabilities.set(
+			agentId,
+			list
+				.split(',')
+				.map((c) => c.trim().toLowerCase())
+				.filter(Boolean),
+		);
+	}
+	return capabilities;
+}
+
+function parseClaimLimit(value: string, name: string): number {
+	const limit = Number(value);
+	if (!Number.isInteger(limit) || limit < 0) {
+		throw new Error(`${name} must be a whole number of tasks`);
+	}
+	return limit;
+}
+
+// "agentId=limit,agentId=limit"
+function parseClaimLimits(value: string): Map<string, number> {
+	const limits = new Map<string, number>();
+	for (const entry of value.split(',').map((e) => e.trim())) {
+		if (!entry) continue;
+		const [agentId, limit] = entry.split('=').map((p) => p.trim());
+		if (!agentId || limit === undefined) {
+			throw new Error(
+				'POOL_CLAIM_LIMITS entries must look like "agentId=limit"',
+			);
+		}
+		limits.set(agentId, parseClaimLimit(limit, 'POOL_CLAIM_LIMITS'));
+	}
+	return limits;
+}
+
+const agentCapabilities = parseAgentCapabilities(
+	process.env.AGENT_CAPABILITIES ?? '',
+);
+// 0 means no limit
+const defaultClaimLimit = parseClaimLimit(
+	process.env.POOL_CLAIM_LIMIT ?? '1',
+	'POOL_CLAIM_LIMIT',
+);
+const claimLimits = parseClaimLimits(process.env.POOL_CLAIM_LIMITS ?? '');
+
+// New pool tasks are pushed to the eligible running agents
+export const POOL_BROADCAST = process.env.POOL_BROADCAST === 'true';
+
+export function getAgentCapabilities(agentId: string): string[] {
+	return agentCapabilities.get(agentId) ?? [];
+}
+
+// null when the agent may claim any number of tasks
+export function getClaimLimit(agentId: string): number | null {
+	const limit = claimLimits.get(agentId) ?? defaultClaimLimit;
+	return limit === 0 ? null : limit;
+}
+
+export function missingCapabilities(
+	agentId: string,
+	required: string[],
+): string[] {
+	const capabilities = getAgentCapabilities(agentId);
+	return required.filter((c) => !capabilities.includes(c));
+}
+
+function hasClaimsLeft(agentId: string): boolean {
+	const limit = getClaimLimit(agentId);
+	return limit === null || countOpenClaims(agentId) < limit;
+}
+
+// Whether the agent could claim a task requiring these capabilities right now
+export function isEligible(agentId: string, required: string[]): boolean {
+	return (
+		missingCapabilities(agentId, required).length === 0 &&
+		hasClaimsLeft(agentId)
+	);
+}
+
+// ---------------------------------------------------------------------------
+// Listing and claiming
+// ---------------------------------------------------------------------------
+
+// Pool tasks the agent has the capabilities for
+export function listAvailableTasks(agentId: string, boardId?: string) {
+	const capabilities = getCapabilitiesByTask();
+	return getPoolTasks(boardId)
+		.map((task) => ({
+			...task,
+			capabilities: capabilities.get(task.id) ?? [],
+		}))
+		.filter(
+			(task) => missingCapabilities(agentId, task.capabilities).length === 0,
+		);
+}
+
+export type ClaimErrorCode =
+	| 'NOT_IN_POOL'
+	| 'BLOCKED'
+	| 'MISSING_CAPABILITIES'
+	| 'CLAIM_LIMIT'
+	| 'ALREADY_CLAIMED';
+
+export const CLAIM_ERRORS: Record<ClaimErrorCode, string> = {
+	NOT_IN_POOL: 'The task is not waiting in the pool',
+	BLOCKED: 'The task is blocked by unfinished tasks',
+	MISSING_CAPABILITIES: 'You lack capabilities the task requires',
+	CLAIM_LIMIT: 'You already hold as many claimed tasks as you may',
+	ALREADY_CLAIMED: 'Another agent claimed the task first',
+};
+
+export type ClaimResult =
+	| { ok: true; task: TaskRow }
+	| {
+			ok: false;
+			code: ClaimErrorCode;
+			error: string;
+			details?: Record<string, unknown>;
+	  };
+
+function fail(
+	code: ClaimErrorCode,
+	details?: Record<string, unknown>,
+): ClaimResult {
+	return { ok: false, code, error: CLAIM_ERRORS[code], details };
+}
+
+// The checks give a precise error; the claim itself is atomic, so when two
+// agents race for the same task only one of them gets it
+export function claimTask(taskId: string, agentId: string): ClaimResult {
+	const task = getTask(taskId);
+	if (!task || task.status !== 'todo' || task.archived_at !== null) {
+		return fail('NOT_IN_POOL');
+	}
+	if (getTaskAssignees(taskId).length > 0) {
+		return fail(task.claimed_by ? 'ALREADY_CLAIMED' : 'NOT_IN_POOL');
+	}
+	const openBlockers = getOpenBlockers(taskId);
+	if (openBlockers.length > 0) return fail('BLOCKED', { openBlockers });
+	const missing = missingCapabilities(agentId, getTaskCapabilities(taskId));
+	if (missing.length > 0) return fail('MISSING_CAPABILITIES', { missing });
+	if (!hasClaimsLeft(agentId)) {
+		return fail('CLAIM_LIMIT', { limit: getClaimLimit(agentId) });
+	}
+
+	if (!claimPoolTask(taskId, agentId)) return fail('ALREADY_CLAIMED');
+	const claimed = getTask(taskId);
+	if (!claimed) return fail('NOT_IN_POOL');
+	return { ok: true, task: claimed };
+}
@@ -1,17 +1,172 @@
+import { randomUUID } from 'node:crypto';
+import { rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
 import { join } from 'node:path';
-import { Hono } from 'hono';
+import { type Context, Hono } from 'hono';
 import { cors } from 'hono/cors';
+import { streamSSE } from 'hono/streaming';
+import { archiveTask, unarchiveTask } from './archive';
+import { isInlineMimeType, resolveArtifactPath } from './artifacts';
 import {
+	type BoardEvent,
+	getBoardEventsSince,
+	publishComment,
+	publishNotification,
+	publishTaskCreated,
+	publishTaskDeleted,
+	publishTaskUpdated,
+	subscribeBoardEvents,
+} from './board-events';
+import {
+	exportBoard,
+	exportBoardCsv,
+	IMPORT_CONFLICT_STRATEGIES,
+	ImportConflictError,
+	type ImportConflictStrategy,
+	type ImportSummary,
+	importBoard,
+	parseBoardExport,
+} from './board-export';
+import {
+	type Actor,
 	addComment,
+	addTaskAssignees,
+	type BoardColumn,
+	type BoardRow,
+	type BoardUpdates,
+	backupDatabase,
+	createBoard,
 	createTask,
+	createTaskSchedule,
+	createTaskTemplate,
+	createWebhook,
+	DEFAULT_BOARD_COLUMNS,
+	DEFAULT_BOARD_ID,
+	deleteBoard,
 	deleteTask,
+	deleteTaskSchedule,
+	deleteTaskTemplate,
+	deleteWebhook,
+	dropPendingNotifications,
+	enqueueWebhookDeliveries,
+	findDependencyError,
+	getBoard,
+	getBoardByName,
+	getBoardUsage,
+	getDb,
+	getNotification,
+	getOpenBlockers,
+	getReleasedDependents,
+	getSubtasks,
 	getTask,
+	getTaskArtifact,
+	getTaskArtifacts,
 	getTaskAssignees,
-	getTaskComments,
-	getTaskResults,
-	listTasks,
-	updateTaskStatus,
+	getTaskAssignments,
+	getTaskBlockers,
+	getTaskCapabilities,
+	getTaskDependents,
+	getTaskEvents,
+	getTaskLabels,
+	getTaskSchedule,
+	getTaskTemplate,
+	getTaskTemplateByName,
+	getWebhook,
+	getWebhookDeliveries,
+	getWebhookDelivery,
+	listBoards,
+	listTaskSchedules,
+	listTaskTemplates,
+	listWebhooks,
+	recordTaskEvent,
+	removeTaskAssignee,
+	resendNotification,
+	retryWebhookDelivery,
+	SEARCH_KINDS,
+	type SearchKind,
+	SNIPPET_END,
+	SNIPPET_START,
+	searchTasks,
+	setAssigneeStatus,
+	setTaskCapabilities,
+	setTaskDependencies,
+	setTaskLabels,
+	TASK_PRIORITIES,
+	TASK_SORTS,
+	type TaskFieldUpdates,
+	type TaskFilter,
+	type TaskPriority,
+	type TaskRow,
+	type TaskScheduleRow,
+	type TaskScheduleUpdates,
+	type TaskSort,
+	type TaskStatus,
+	type TaskTemplateRow,
+	type TaskTemplateUpdates,
+	updateBoard,
+	updateTaskFields,
+	updateTaskSchedule,
+	updateTaskTemplate,
+	updateWebhook,
+	WEBHOOK_EVENT_TYPES,
+	type WebhookDeliveryRow,
+	type WebhookDeliveryStatus,
+	type WebhookEventType,
+	type WebhookRow,
+	type WebhookUpdates,
 } from './db';
+import {
+	announcePoolTask,
+	batchNotifications,
+	FETCH_TIMEOUT_MS,
+	markHeldPushes,
+	NANO_API_URL,
+	nanoHeaders,
+	notifyAnswer,
+	notifyAssignees,
+	notifyRejection,
+	notifyUnassigned,
+	processNotificationOutbox,
+	releaseDependents,
+	rewindHeldPushes,
+} from './notifications';
+import {
+	authenticate,
+	CORS_ORIGINS,
+	hasRole,
+	type RestEnv,
+	ROLES,
+	type Role,
+	requireRole,
+	userActor,
+} from './rest-auth';
+import {
+	nextScheduleRun,
+	previewScheduleRuns,
+	type ScheduleTiming,
+	scheduleTiming,
+} from './scheduler';
+import {
+	buildStats,
+	renderMetrics,
+	STATS_WINDOWS,
+	type StatsRange,
+	type StatsWindow,
+	statsRange,
+} from './stats';
+import { buildTaskDetail, buildTaskList, describeArtifact } from './task-views';
+import { renderTemplate, templateVariables } from './templates';
+import { generateWebhookSecret } from './webhooks';
+import {
+	checkTransition,
+	describeWorkflow,
+	parseBoardColumns,
+	syncTaskStatus,
+	TASK_STATUSES,
+	TRANSITIONS,
+	WORKFLOW_ERRORS,
+	type WorkflowErrorCode,
+} from './workflow';
 
 interface NanoAgentStatus {
 	status: string;
@@ -30,13 +185,51 @@ function isAgentStatusOnly(value: unknown): value is AgentStatusOnly {
 // remains complete even if NanoAgentStatus is extended in the future.
 type AgentStatusOnly = Pick<NanoAgentStatus, 'status'>;
 
-const FETCH_TIMEOUT_MS = 5000;
+const SSE_KEEPALIVE_MS = 20_000;
+const MAX_LABEL_LENGTH = 50;
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+const MAX_DELIVERY_LIMIT = 200;
+const SCHEDULE_PREVIEW_RUNS = 5;
+const MAX_SCHEDULE_PREVIEW_RUNS = 50;
+const WEBHOOK_DELIVERY_STATUSES: WebhookDeliveryStatus[] = [
+	'pending',
+	'delivered',
+	'failed',
+];
+
+const WORKFLOW_HTTP_STATUS: Record<WorkflowErrorCode, 403 | 409> = {
+	INVALID_TRANSITION: 409,
+	ACTOR_NOT_ALLOWED: 403,
+	NOT_ASSIGNED: 403,
+	BLOCKED: 409,
+	SUBTASKS_OPEN: 409,
+	ARCHIVED: 409,
+};
+
+const MAX_BULK_ITEMS = 100;
+const BULK_ACTIONS = [
+	'create',
+	'approve',
+	'reject',
+	'reassign',
+	'archive',
+	'unarchive',
+	'delete',
+] as const;
+type BulkAction = (typeof BULK_ACTIONS)[number];
+
+// The same minimum roles as the single-task routes
+const BULK_ACTION_ROLES: Record<BulkAction, Role> = {
+	create: 'requester',
+	approve: 'reviewer',
+	reject: 'reviewer',
+	reassign: 'requester',
+	archive: 'requester',
+	unarchive: 'requester',
+	delete: 'admin',
+};
 
-const NANO_API_URL =
-	process.env.NANO_API_URL ?? 'https://host.docker.internal:3000';
-const NANO_INTERNAL_TOKEN = process.env.NANO_INTERNAL_TOKEN;
-if (!NANO_INTERNAL_TOKEN)
-	throw new Error('NANO_INTERNAL_TOKEN environment variable must be set');
 const FRONTEND_INDEX_PATH =
 	process.env.FRONTEND_INDEX_PATH ??
 	join(process.cwd(), 'src', 'frontend', 'index.html');
@@ -50,106 +243,993 @@ function parsePort(value: string | undefined): number | undefined {
 	return parsed >= 1 && parsed <= 65535 ? parsed : undefined;
 }
 
-function nanoHeaders() {
+function parseBlockedBy(value: unknown): string[] | null {
+	if (value === undefined) return [];
+	if (!Array.isArray(value) || !value.every((id) => typeof id === 'string')) {
+		return null;
+	}
+	return [...new Set(value as string[])];
+}
+
+function parseAgentIds(value: unknown): string[] | null {
+	if (
+		!Array.isArray(value) ||
+		value.length === 0 ||
+		!value.every((id) => typeof id === 'string' && id.length > 0)
+	) {
+		return null;
+	}
+	return [...new Set(value as string[])];
+}
+
+// The task status is re-derived from the remaining assignments, which may
+// complete it (and release its dependents) or send it back to in progress
+function recordAssigneeChange(
+	taskId: string,
+	previous: string[],
+	actor: Actor,
+) {
+	const taskStatus = syncTaskStatus(taskId);
+	const statusChanged = taskStatus.to !== taskStatus.from;
+	recordTaskEvent(taskId, 'updated', actor, {
+		from: statusChanged ? taskStatus.from : null,
+		to: statusChanged ? taskStatus.to : null,
+		payload: {
+			changes: {
+				assignees: { from: previous, to: getTaskAssignees(taskId) },
+			},
+		},
+	});
+	publishTaskUpdated(taskId);
+	if (statusChanged && taskStatus.to === 'done') {
+		releaseDependents(getReleasedDependents(taskId));
+	}
+}
+
+// Why an operation on a task was refused, with the HTTP status its route
+// answers
+interface TaskOperationError {
+	status: 400 | 403 | 404 | 409;
+	error: string;
+	code?: WorkflowErrorCode;
+	details?: Record<string, unknown>;
+}
+
+function refusal(c: Context<RestEnv>, refused: TaskOperationError) {
+	return c.json(
+		{ error: refused.error, code: refused.code, ...refused.details },
+		refused.status,
+	);
+}
+
+// Approves or rejects one agent's result, or every submitted result when no
+// agent is given. Returns null once done.
+function reviewTask(
+	task: TaskRow,
+	action: 'approve' | 'reject',
+	actor: Actor,
+	feedback: string,
+	agentId?: string,
+): TaskOperationError | null {
+	const check = checkTransition(task, action, actor, agentId);
+	if (!check.ok) {
+		return {
+			status: WORKFLOW_HTTP_STATUS[check.code],
+			error: check.error,
+			code: check.code,
+			details: check.details,
+		};
+	}
+
+	const agentIds = check.agentId
+		? [check.agentId]
+		: getTaskAssignments(task.id)
+				.filter((a) => a.status === 'review')
+				.map((a) => a.agent_id);
+	setAssigneeStatus(task.id, agentIds, check.to);
+	const taskStatus = syncTaskStatus(task.id);
+
+	if (action === 'approve') {
+		recordTaskEvent(task.id, 'approved', actor, {
+			from: taskStatus.from,
+			to: taskStatus.to,
+			payload: { agentIds },
+		});
+		publishTaskUpdated(task.id);
+		if (taskStatus.to === 'done') {
+			releaseDependents(getReleasedDependents(task.id));
+		}
+		return null;
+	}
+
+	recordTaskEvent(task.id, 'rejected', actor, {
+		from: taskStatus.from,
+		to: taskStatus.to,
+		payload: { agentIds, feedback },
+	});
+	const comment = addComment(
+		task.id,
+		actor.id,
+		'human',
+		actor.name,
+		`[Feedback] ${feedback}`,
+	);
+	publishComment(comment);
+	publishTaskUpdated(task.id);
+
+	// Only the agents whose work was sent back hear about it
+	notifyRejection(task.id, agentIds, task.title, feedback).catch((error) => {
+		console.warn('Failed to notify assignees for task', task.id, error);
+	});
+	return null;
+}
+
+// Makes `agentIds` the task's assignees: newcomers get the assignment push,
+// the agents taken off are told to stop. Returns null once done.
+function reassignTask(
+	task: TaskRow,
+	agentIds: string[],
+	actor: Actor,
+): TaskOperationError | null {
+	if (task.status === 'done') {
+		return { status: 409, error: 'The assignees of a done task are frozen' };
+	}
+	if (task.archived_at !== null) {
+		return { status: 409, error: WORKFLOW_ERRORS.ARCHIVED, code: 'ARCHIVED' };
+	}
+
+	const previous = getTaskAssignees(task.id);
+	const added = agentIds.filter((id) => !previous.includes(id));
+	const removed = previous.filter((id) => !agentIds.includes(id));
+	if (added.length === 0 && removed.length === 0) return null;
+
+	addTaskAssignees(task.id, added);
+	for (const agentId of removed) {
+		// Pushes still queued for the agent no longer apply
+		dropPendingNotifications(task.id, agentId);
+		removeTaskAssignee(task.id, agentId);
+	}
+	recordAssigneeChange(task.id, previous, actor);
+	notifyUnassigned(task.id, removed, task.title).catch((error) => {
+		console.warn('Failed to notify unassigned agents for task', task.id, error);
+	});
+	notifyAssignees(task.id, added, task.title, task.description).catch(
+		(error) => {
+			console.warn('Failed to notify assignees for task', task.id, error);
+		},
+	);
+	return null;
+}
+
+// Deletes an archived task for good. Returns null once done.
+function purgeTask(task: TaskRow, actor: Actor): TaskOperationError | null {
+	if (task.archived_at === null) {
+		return {
+			status: 409,
+			error: 'Only archived tasks can be deleted; archive it first',
+		};
+	}
+	const blockers = getTaskBlockers(task.id);
+	const dependents = getTaskDependents(task.id);
+	const subtasks = getSubtasks(task.id).map((t) => t.id);
+	// Queued first, while the task can still be included in the payload
+	enqueueWebhookDeliveries({
+		type: 'deleted',
+		taskId: task.id,
+		actor: actor,
+		from: task.status,
+	});
+	if (!deleteTask(task.id)) return { status: 404, error: 'Task not found' };
+
+	// The deleted task's own history goes with it; its parent keeps a trace
+	if (task.parent_id) {
+		recordTaskEvent(task.parent_id, 'subtask_deleted', actor, {
+			payload: { subtaskId: task.id, title: task.title },
+		});
+	}
+	publishTaskDeleted(task.id);
+	// Neighbours lose their link to the deleted task
+	publishTaskUpdated(...blockers, ...dependents, ...subtasks);
+
+	// Removing an unfinished blocker may leave its dependents free to start
+	if (task.status !== 'done') {
+		releaseDependents(
+			dependents
+				.map((id) => getTask(id))
+				.filter(
+					(t): t is TaskRow =>
+						t !== null &&
+						t.status === 'todo' &&
+						getOpenBlockers(t.id).length === 0,
+				),
+		);
+	}
+	return null;
+}
+
+interface BulkBody {
+	action?: unknown;
+	taskIds?: unknown;
+	tasks?: unknown;
+	feedback?: unknown;
+	agentIds?: unknown;
+	atomic?: unknown;
+}
+
+interface BulkRequest {
+	action: BulkAction;
+	// Task bodies to create, or the IDs of the tasks to act on
+	items: unknown[];
+	feedback: string;
+	agentIds: string[];
+	atomic: boolean;
+}
+
+type BulkItemResult =
+	| { index: number; taskId: string; ok: true; task?: TaskRow }
+	| {
+			index: number;
+			taskId: string | null;
+			ok: false;
+			httpStatus: number;
+			error: string;
+			code?: WorkflowErrorCode;
+			[detail: string]: unknown;
+	  };
+
+// Thrown inside the transaction to roll an atomic batch back
+class BulkRollback extends Error {}
+
+// Returns an error message instead when the request is invalid
+function parseBulkRequest(body: BulkBody): BulkRequest | string {
+	const action = body.action as BulkAction;
+	if (!BULK_ACTIONS.includes(action)) {
+		return `action must be one of ${BULK_ACTIONS}`;
+	}
+	const items = action === 'create' ? body.tasks : body.taskIds;
+	const field = action === 'create' ? 'tasks' : 'taskIds';
+	if (!Array.isArray(items) || items.length === 0) {
+		return `${field} must be a non-empty array`;
+	}
+	if (items.length > MAX_BULK_ITEMS) {
+		return `${field} can hold at most ${MAX_BULK_ITEMS} items`;
+	}
+	if (
+		action === 'create' &&
+		!items.every((t) => typeof t === 'object' && t !== null)
+	) {
+		return 'tasks must be an array of task objects';
+	}
+	if (
+		action !== 'create' &&
+		!items.every((id) => typeof id === 'string' && id.length > 0)
+	) {
+		return 'taskIds must be an array of task IDs';
+	}
+
+	const feedback = typeof body.feedback === 'string' ? body.feedback : '';
+	if (action === 'reject' && !feedback) {
+		return 'feedback is required when rejecting';
+	}
+	let agentIds: string[] = [];
+	if (action === 'reassign') {
+		const parsed = parseAgentIds(body.agentIds);
+		if (!parsed) return 'agentIds must be a non-empty array of agent IDs';
+		agentIds = parsed;
+	}
+	if (body.atomic !== undefined && typeof body.atomic !== 'boolean') {
+		return 'atomic must be a boolean';
+	}
+
 	return {
-		'Content-Type': 'application/json',
-		Authorization: `Bearer ${NANO_INTERNAL_TOKEN}`,
+		action,
+		// A task listed twice is acted on once
+		items: action === 'create' ? items : [...new Set(items)],
+		feedback,
+		agentIds,
+		atomic: body.atomic === true,
 	};
 }
 
-// ---------------------------------------------------------------------------
-// Push helpers
-// ---------------------------------------------------------------------------
+// Runs one item of a bulk request. Returns the task it created or acted on,
+// or why it was refused.
+function runBulkItem(
+	request: BulkRequest,
+	item: unknown,
+	actor: Actor,
+): TaskRow | TaskOperationError {
+	if (request.action === 'create') {
+		const input = parseNewTask(item as NewTaskBody);
+		if ('error' in input) return input;
+		return createAndAnnounceTask(input, actor, { bulk: true });
+	}
+
+	const task = getTask(item as string);
+	if (!task) return { status: 404, error: 'Task not found' };
+	let refused: TaskOperationError | null = null;
+	switch (request.action) {
+		case 'approve':
+		case 'reject':
+			refused = reviewTask(task, request.action, actor, request.feedback);
+			break;
+		case 'reassign':
+			refused = reassignTask(task, request.agentIds, actor);
+			break;
+		case 'archive':
+			if (task.archived_at !== null) {
+				refused = { status: 409, error: 'The task is already archived' };
+			} else archiveTask(task.id, actor);
+			break;
+		case 'unarchive':
+			if (task.archived_at === null) {
+				refused = { status: 409, error: 'The task is not archived' };
+			} else unarchiveTask(task.id, actor);
+			break;
+		case 'delete':
+			refused = purgeTask(task, actor);
+			break;
+	}
+	return refused ?? task;
+}
 
-async function pushToAgent(agentId: string, content: string): Promise<void> {
+// Runs a bulk request in one transaction, each item in its own savepoint so
+// a failing item leaves the others applied. With `atomic`, any failure rolls
+// the whole batch back instead. Agents get one push for the whole batch.
+async function runBulkRequest(request: BulkRequest, actor: Actor) {
+	const db = getDb();
+	const results: BulkItemResult[] = [];
+	let rolledBack = false;
 	try {
-		await fetch(`${NANO_API_URL}/internal/agents/${agentId}/messages`, {
-			method: 'POST',
-			headers: nanoHeaders(),
-			body: JSON.stringify({ content }),
-			signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
-		});
+		await batchNotifications(() =>
+			db.transaction(() => {
+				request.items.forEach((item, index) => {
+					const taskId = request.action === 'create' ? null : (item as string);
+					const mark = markHeldPushes();
+					try {
+						const outcome = db.transaction(() =>
+							runBulkItem(request, item, actor),
+						)();
+						results.push(
+							'error' in outcome
+								? {
+										index,
+										taskId,
+										ok: false,
+										httpStatus: outcome.status,
+										error: outcome.error,
+										code: outcome.code,
+										...outcome.details,
+									}
+								: {
+										index,
+										taskId: outcome.id,
+										ok: true,
+										task: request.action === 'create' ? outcome : undefined,
+									},
+						);
+					} catch (err) {
+						// Only this item's savepoint is rolled back, with its pushes
+						rewindHeldPushes(mark);
+						console.warn('[tasks] Bulk item failed:', err);
+						results.push({
+							index,
+							taskId,
+							ok: false,
+							httpStatus: 500,
+							error: err instanceof Error ? err.message : String(err),
+						});
+					}
+				});
+				if (request.atomic && results.some((r) => !r.ok)) {
+					throw new BulkRollback();
+				}
+			})(),
+		);
 	} catch (err) {
-		console.warn(`[tasks] Failed to push to agent ${agentId}:`, err);
+		if (!(err instanceof BulkRollback)) throw err;
+		rolledBack = true;
+		results.forEach((result, i) => {
+			if (!result.ok) return;
+			// The board was told about changes that no longer exist
+			if (getTask(result.taskId)) publishTaskUpdated(result.taskId);
+			else publishTaskDeleted(result.taskId);
+			results[i] = {
+				index: result.index,
+				// A rolled-back creation leaves no task behind
+				taskId: request.action === 'create' ? null : result.taskId,
+				ok: false,
+				httpStatus: 424,
+				error: 'Rolled back because another item of the batch failed',
+				rolledBack: true,
+			};
+		});
 	}
+
+	const succeeded = results.filter((r) => r.ok).length;
+	return {
+		action: request.action,
+		atomic: request.atomic,
+		rolledBack,
+		succeeded,
+		failed: results.length - succeeded,
+		results,
+	};
 }
 
-async function notifyAssignees(
-	taskId: string,
-	assigneeIds: string[],
-	title: string,
-	description: string | null,
-): Promise<void> {
-	const content = [
-		`[New task assigned to you]`,
-		`Title: ${title}`,
-		description ? `Description: ${description}` : null,
-		`taskId: ${taskId}`,
-		``,
-		`Use get_task("${taskId}") to see details, then update_task_status("${taskId}", "in_progress") when you start, and post_task_result("${taskId}", yourResult) when done.`,
-	]
-		.filter((l) => l !== null)
-		.join('\n');
-
-	await Promise.all(assigneeIds.map((id) => pushToAgent(id, content)));
-}
-
-async function notifyRejection(
-	taskId: string,
-	assigneeIds: string[],
-	title: string,
-	feedback: string,
-): Promise<void> {
-	const content = [
-		`[Task returned for revision]`,
-		`Title: ${title}`,
-		`taskId: ${taskId}`,
-		``,
-		`Feedback: ${feedback}`,
-		``,
-		`Please revise and call post_task_result("${taskId}", yourResult) again when done.`,
-	].join('\n');
+function parseWebhookUrl(value: unknown): string | null {
+	if (typeof value !== 'string') return null;
+	try {
+		const url = new URL(value);
+		return url.protocol === 'http:' || url.protocol === 'https:'
+			? url.toString()
+			: null;
+	} catch {
+		return null;
+	}
+}
 
-	await Promise.all(assigneeIds.map((id) => pushToAgent(id, content)));
+// An empty list subscribes to every event
+function parseEventTypes(value: unknown): WebhookEventType[] | null {
+	if (value === undefined) return [];
+	if (
+		!Array.isArray(value) ||
+		!value.every((t) => WEBHOOK_EVENT_TYPES.includes(t as WebhookEventType))
+	) {
+		return null;
+	}
+	return [...new Set(value as WebhookEventType[])];
 }
 
-// ---------------------------------------------------------------------------
-// Build enriched task list
-// ---------------------------------------------------------------------------
+// The secret is only ever returned when the webhook is created
+function describeWebhook({ secret: _secret, ...webhook }: WebhookRow) {
+	return {
+		...webhook,
+		event_types: JSON.parse(webhook.event_types) as WebhookEventType[],
+		active: webhook.active === 1,
+	};
+}
+
+function describeDelivery(delivery: WebhookDeliveryRow) {
+	return { ...delivery, payload: JSON.parse(delivery.payload) };
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replaceAll('&', '&amp;')
+		.replaceAll('<', '&lt;')
+		.replaceAll('>', '&gt;')
+		.replaceAll('"', '&quot;');
+}
+
+// Snippets come back HTML-escaped with matches wrapped in <mark>
+function highlightSnippet(snippet: string): string {
+	return escapeHtml(snippet)
+		.replaceAll(SNIPPET_START, '<mark>')
+		.replaceAll(SNIPPET_END, '</mark>');
+}
+
+// Labels are compared case-insensitively, so they are stored lowercased
+function parseLabels(value: unknown): string[] | null {
+	if (value === undefined) return [];
+	if (!Array.isArray(value) || !value.every((l) => typeof l === 'string')) {
+		return null;
+	}
+	const labels = (value as string[])
+		.map((l) => l.trim().toLowerCase())
+		.filter((l) => l.length > 0);
+	if (labels.some((l) => l.length > MAX_LABEL_LENGTH)) return null;
+	return [...new Set(labels)];
+}
+
+function isPriority(value: unknown): value is TaskPriority {
+	return TASK_PRIORITIES.includes(value as TaskPriority);
+}
+
+// A timestamp in ms or an ISO 8601 string; null clears the due date.
+// Returns undefined when the value is neither.
+function parseDueAt(value: unknown): number | null | undefined {
+	if (value === null) return null;
+	const ms = typeof value === 'string' ? Date.parse(value) : value;
+	return typeof ms === 'number' && Number.isFinite(ms) ? ms : undefined;
+}
+
+interface NewTaskBody {
+	boardId?: unknown;
+	title?: string;
+	description?: string | null;
+	assigneeIds?: unknown;
+	blockedBy?: unknown;
+	parentId?: string;
+	reviewQuorum?: number | null;
+	priority?: unknown;
+	dueAt?: unknown;
+	labels?: unknown;
+	capabilities?: unknown;
+}
+
+interface NewTask {
+	boardId: string;
+	title: string;
+	description: string | null;
+	assigneeIds: string[];
+	blockedBy: string[];
+	parentId: string | null;
+	reviewQuorum: number | null;
+	priority: TaskPriority;
+	dueAt: number | null;
+	labels: string[];
+	capabilities: string[];
+}
+
+// Returns why the task cannot be created instead
+function parseNewTask(body: NewTaskBody): NewTask | TaskOperationError {
+	const parent = body.parentId ? getTask(body.parentId) : null;
+	// Nobody could work on a subtask of a task hidden from everyone
+	if (parent && parent.archived_at !== null) {
+		return { status: 409, error: WORKFLOW_ERRORS.ARCHIVED, code: 'ARCHIVED' };
+	}
+	const input = validateNewTask(body, parent);
+	return typeof input === 'string' ? { status: 400, error: input } : input;
+}
+
+// Returns an error message instead when the task is invalid
+function validateNewTask(
+	body: NewTaskBody,
+	parent: TaskRow | null,
+): NewTask | string {
+	const { title, description } = body;
+	if (body.boardId !== undefined && typeof body.boardId !== 'string') {
+		return 'boardId must be a board ID';
+	}
+	const parentId = body.parentId ?? null;
+	if (parentId && !parent) return 'Parent task not found';
+	// Subtasks go to their parent's board unless told otherwise
+	const board = getBoard(body.boardId ?? parent?.board_id ?? DEFAULT_BOARD_ID);
+	if (!board) return 'Board not found';
+
+	if (!title) return 'title is required';
+	// Without assigneeIds the board's default assignees get the task; with
+	// none at all, it goes to the pool
+	const assigneeIds =
+		body.assigneeIds === undefined
+			? (JSON.parse(board.default_assignee_ids) as string[])
+			: Array.isArray(body.assigneeIds) && body.assigneeIds.length === 0
+				? []
+				: parseAgentIds(body.assigneeIds);
+	if (!assigneeIds) return 'assigneeIds must be an array of agent IDs';
+
+	const blockedBy = parseBlockedBy(body.blockedBy);
+	if (!blockedBy) return 'blockedBy must be an array of task IDs';
+	const dependencyError = findDependencyError(null, blockedBy);
+	if (dependencyError) return dependencyError;
+
+	const reviewQuorum = body.reviewQuorum ?? null;
+	if (
+		reviewQuorum !== null &&
+		(!Number.isInteger(reviewQuorum) ||
+			reviewQuorum < 1 ||
+			reviewQuorum > assigneeIds.length)
+	) {
+		return 'reviewQuorum must be an integer between 1 and the number of assignees';
+	}
+
+	const priority = body.priority ?? 'normal';
+	if (!isPriority(priority))
+		return `priority must be one of ${TASK_PRIORITIES}`;
+	const dueAt = body.dueAt === undefined ? null : parseDueAt(body.dueAt);
+	if (dueAt === undefined) return 'dueAt must be a timestamp or ISO date';
+	const labels = parseLabels(body.labels);
+	if (!labels) {
+		return `labels must be an array of strings up to ${MAX_LABEL_LENGTH} characters`;
+	}
+	const capabilities = parseLabels(body.capabilities);
+	if (!capabilities) {
+		return `capabilities must be an array of strings up to ${MAX_LABEL_LENGTH} characters`;
+	}
+
+	return {
+		boardId: board.id,
+		title,
+		description: description ?? null,
+		assigneeIds,
+		blockedBy,
+		parentId,
+		reviewQuorum,
+		priority,
+		dueAt,
+		labels,
+		capabilities,
+	};
+}
 
-function buildTaskList() {
-	const tasks = listTasks();
-	return tasks.map((task) => {
-		const assignees = getTaskAssignees(task.id);
-		const results = getTaskResults(task.id);
-		const lastResult = results.at(-1) ?? null;
-		return { ...task, assignees, lastResult };
+// Creates the task, logs it and pushes it to its assignees, or announces it
+// to the agents that may claim it when it goes to the pool. `extraPayload`
+// is added to the 'created' event.
+function createAndAnnounceTask(
+	input: NewTask,
+	actor: Actor,
+	extraPayload: Record<string, unknown> = {},
+): TaskRow {
+	const { title, description, assigneeIds, ...options } = input;
+	const task = createTask(title, description, assigneeIds, options);
+	recordTaskEvent(task.id, 'created', actor, {
+		to: task.status,
+		payload: { title, assigneeIds, ...options, ...extraPayload },
 	});
+	publishTaskCreated(task.id);
+	publishTaskUpdated(...input.blockedBy);
+
+	// Fire-and-forget push to assignees
+	if (assigneeIds.length === 0) {
+		announcePoolTask(task).catch((error) => {
+			console.warn('Failed to announce pool task', task.id, error);
+		});
+		return task;
+	}
+	notifyAssignees(task.id, assigneeIds, task.title, task.description).catch(
+		(error) => {
+			console.warn('Failed to notify assignees for task', task.id, error);
+		},
+	);
+	return task;
+}
+
+// ?window= picks a preset; ?since= / ?until= (ms) give an explicit range
+function parseStatsRange(query: Record<string, string>): StatsRange | string {
+	const now = Date.now();
+	if (query.since === undefined && query.until === undefined) {
+		const window = (query.window ?? '7d') as StatsWindow;
+		if (!(window in STATS_WINDOWS)) {
+			return `window must be one of ${Object.keys(STATS_WINDOWS)}`;
+		}
+		return statsRange(window, now);
+	}
+	const since = query.since === undefined ? null : Number(query.since);
+	const until = query.until === undefined ? now : Number(query.until);
+	if (since !== null && !Number.isFinite(since)) {
+		return 'since must be a timestamp in ms';
+	}
+	if (!Number.isFinite(until)) return 'until must be a timestamp in ms';
+	if (since !== null && since > until) return 'since must be before until';
+	return { since, until };
+}
+
+// Template variable values; numbers are accepted and stringified
+function parseTemplateValues(value: unknown): Record<string, string> | null {
+	if (value === undefined) return {};
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		return null;
+	}
+	const variables: Record<string, string> = {};
+	for (const [name, v] of Object.entries(value)) {
+		if (typeof v !== 'string' && typeof v !== 'number') return null;
+		variables[name] = String(v);
+	}
+	return variables;
+}
+
+interface TemplateBody {
+	name?: unknown;
+	title?: unknown;
+	description?: unknown;
+	assigneeIds?: unknown;
+	labels?: unknown;
+	priority?: unknown;
+}
+
+// Validates the fields present in `body`. Returns an error message instead
+// when one is invalid.
+function parseTemplateUpdates(
+	body: TemplateBody,
+): TaskTemplateUpdates | string {
+	const updates: TaskTemplateUpdates = {};
+	if (body.name !== undefined) {
+		if (typeof body.name !== 'string' || !body.name.trim()) {
+			return 'name must be a non-empty string';
+		}
+		updates.name = body.name.trim();
+	}
+	if (body.title !== undefined) {
+		if (typeof body.title !== 'string' || !body.title.trim()) {
+			return 'title must be a non-empty string';
+		}
+		updates.title = body.title.trim();
+	}
+	if (body.description !== undefined) {
+		if (body.description !== null && typeof body.description !== 'string') {
+			return 'description must be a string or null';
+		}
+		updates.description = body.description?.trim() || null;
+	}
+	if (body.assigneeIds !== undefined) {
+		// Default assignees are optional
+		const assigneeIds =
+			Array.isArray(body.assigneeIds) && body.assigneeIds.length === 0
+				? []
+				: parseAgentIds(body.assigneeIds);
+		if (!assigneeIds) return 'assigneeIds must be an array of agent IDs';
+		updates.assigneeIds = assigneeIds;
+	}
+	if (body.labels !== undefined) {
+		const labels = parseLabels(body.labels);
+		if (!labels) {
+			return `labels must be an array of strings up to ${MAX_LABEL_LENGTH} characters`;
+		}
+		updates.labels = labels;
+	}
+	if (body.priority !== undefined) {
+		if (!isPriority(body.priority)) {
+			return `priority must be one of ${TASK_PRIORITIES}`;
+		}
+		updates.priority = body.priority;
+	}
+	return updates;
+}
+
+function describeTemplate(template: TaskTemplateRow) {
+	return {
+		...template,
+		assignee_ids: JSON.parse(template.assignee_ids) as string[],
+		labels: JSON.parse(template.labels) as string[],
+		variables: templateVariables(template.title, template.description),
+	};
+}
+
+interface BoardBody {
+	name?: unknown;
+	description?: unknown;
+	columns?: unknown;
+	defaultAssigneeIds?: unknown;
+}
+
+function parseBoardUpdates(body: BoardBody): BoardUpdates | string {
+	const updates: BoardUpdates = {};
+	if (body.name !== undefined) {
+		if (typeof body.name !== 'string' || !body.name.trim()) {
+			return 'name must be a non-empty string';
+		}
+		updates.name = body.name.trim();
+	}
+	if (body.description !== undefined) {
+		if (body.description !== null && typeof body.description !== 'string') {
+			return 'description must be a string or null';
+		}
+		updates.description = body.description?.trim() || null;
+	}
+	if (body.columns !== undefined) {
+		const columns = parseBoardColumns(body.columns);
+		if (typeof columns === 'string') return columns;
+		updates.columns = columns;
+	}
+	if (body.defaultAssigneeIds !== undefined) {
+		// Default assignees are optional
+		const assigneeIds =
+			Array.isArray(body.defaultAssigneeIds) &&
+			body.defaultAssigneeIds.length === 0
+				? []
+				: parseAgentIds(body.defaultAssigneeIds);
+		if (!assigneeIds) {
+			return 'defaultAssigneeIds must be an array of agent IDs';
+		}
+		updates.defaultAssigneeIds = assigneeIds;
+	}
+	return updates;
+}
+
+function describeBoard(board: BoardRow) {
+	return {
+		...board,
+		columns: JSON.parse(board.columns) as BoardColumn[],
+		default_assignee_ids: JSON.parse(board.default_assignee_ids) as string[],
+	};
+}
+
+// Query filters shared by GET /tasks and GET /boards/:id/tasks. Returns an
+// error message instead when one is invalid.
+function parseTaskFilter(query: Record<string, string>): TaskFilter | string {
+	const {
+		boardId,
+		status,
+		assigneeId,
+		label,
+		priority,
+		overdue,
+		stale,
+		pool,
+		archived,
+		sort,
+	} = query;
+	if (status && !TASK_STATUSES.includes(status as TaskStatus)) {
+		return `status must be one of ${TASK_STATUSES}`;
+	}
+	if (priority && !isPriority(priority)) {
+		return `priority must be one of ${TASK_PRIORITIES}`;
+	}
+	if (overdue && overdue !== 'true' && overdue !== 'false') {
+		return 'overdue must be "true" or "false"';
+	}
+	if (stale && stale !== 'true' && stale !== 'false') {
+		return 'stale must be "true" or "false"';
+	}
+	if (pool && pool !== 'true' && pool !== 'false') {
+		return 'pool must be "true" or "false"';
+	}
+	if (archived && archived !== 'true' && archived !== 'false') {
+		return 'archived must be "true" or "false"';
+	}
+	if (sort && !TASK_SORTS.includes(sort as TaskSort)) {
+		return `sort must be one of ${TASK_SORTS}`;
+	}
+	return {
+		boardId: boardId || undefined,
+		status: (status as TaskStatus) || undefined,
+		assigneeId: assigneeId || undefined,
+		label: label?.trim().toLowerCase() || undefined,
+		priority: (priority as TaskPriority) || undefined,
+		overdue: overdue ? overdue === 'true' : undefined,
+		stale: stale ? stale === 'true' : undefined,
+		pool: pool ? pool === 'true' : undefined,
+		archived: archived === 'true',
+		sort: (sort as TaskSort) || undefined,
+	};
+}
+
+interface ScheduleBody {
+	boardId?: unknown;
+	title?: unknown;
+	description?: unknown;
+	assigneeIds?: unknown;
+	priority?: unknown;
+	labels?: unknown;
+	reviewQuorum?: unknown;
+	cron?: unknown;
+	intervalMinutes?: unknown;
+	active?: unknown;
+}
+
+// Exactly one of cron and intervalMinutes. Returns an error message instead
+// when the timing is invalid or never fires.
+function parseScheduleTiming(
+	cron: unknown,
+	intervalMinutes: unknown,
+): ScheduleTiming | string {
+	if ((cron ?? null) === null && (intervalMinutes ?? null) === null) {
+		return 'one of cron and intervalMinutes is required';
+	}
+	if ((cron ?? null) !== null && (intervalMinutes ?? null) !== null) {
+		return 'cron and intervalMinutes cannot both be set';
+	}
+	if ((cron ?? null) !== null) {
+		if (typeof cron !== 'string') return 'cron must be a string';
+		const timing = { cron: cron.trim(), intervalMinutes: null };
+		try {
+			if (nextScheduleRun(timing, Date.now()) === null) {
+				return 'cron expression never matches';
+			}
+		} catch (err) {
+			return `Invalid cron expression: ${err instanceof Error ? err.message : String(err)}`;
+		}
+		return timing;
+	}
+	if (
+		typeof intervalMinutes !== 'number' ||
+		!Number.isInteger(intervalMinutes) ||
+		intervalMinutes < 1
+	) {
+		return 'intervalMinutes must be a positive integer';
+	}
+	return { cron: null, intervalMinutes };
+}
+
+// Validates the fields present in `body`. Returns an error message instead
+// when one is invalid.
+function parseScheduleUpdates(
+	body: ScheduleBody,
+): TaskScheduleUpdates | string {
+	const updates: TaskScheduleUpdates = {};
+	if (body.boardId !== undefined) {
+		if (typeof body.boardId !== 'string' || !getBoard(body.boardId)) {
+			return 'Board not found';
+		}
+		updates.boardId = body.boardId;
+	}
+	if (body.title !== undefined) {
+		if (typeof body.title !== 'string' || !body.title.trim()) {
+			return 'title must be a non-empty string';
+		}
+		updates.title = body.title.trim();
+	}
+	if (body.description !== undefined) {
+		if (body.description !== null && typeof body.description !== 'string') {
+			return 'description must be a string or null';
+		}
+		updates.description = body.description?.trim() || null;
+	}
+	if (body.assigneeIds !== undefined) {
+		const assigneeIds = parseAgentIds(body.assigneeIds);
+		if (!assigneeIds)
+			return 'assigneeIds must be a non-empty array of agent IDs';
+		updates.assigneeIds = assigneeIds;
+	}
+	if (body.priority !== undefined) {
+		if (!isPriority(body.priority)) {
+			return `priority must be one of ${TASK_PRIORITIES}`;
+		}
+		updates.priority = body.priority;
+	}
+	if (body.labels !== undefined) {
+		const labels = parseLabels(body.labels);
+		if (!labels) {
+			return `labels must be an array of strings up to ${MAX_LABEL_LENGTH} characters`;
+		}
+		updates.labels = labels;
+	}
+	if (body.reviewQuorum !== undefined) {
+		if (
+			body.reviewQuorum !== null &&
+			(typeof body.reviewQuorum !== 'number' ||
+				!Number.isInteger(body.reviewQuorum) ||
+				body.reviewQuorum < 1)
+		) {
+			return 'reviewQuorum must be a positive integer or null';
+		}
+		updates.reviewQuorum = body.reviewQuorum;
+	}
+	if (body.cron !== undefined || body.intervalMinutes !== undefined) {
+		const timing = parseScheduleTiming(body.cron, body.intervalMinutes);
+		if (typeof timing === 'string') return timing;
+		updates.cron = timing.cron;
+		updates.intervalMinutes = timing.intervalMinutes;
+	}
+	if (body.active !== undefined) {
+		if (typeof body.active !== 'boolean') return 'active must be a boolean';
+		updates.active = body.active;
+	}
+	return updates;
 }
 
-function buildTaskDetail(taskId: string) {
-	const task = getTask(taskId);
-	if (!task) return null;
-	const assignees = getTaskAssignees(taskId);
-	const comments = getTaskComments(taskId);
-	const results = getTaskResults(taskId);
-	return { ...task, assignees, comments, results };
+// Upcoming runs of an active schedule, starting with the next one
+function describeSchedule(schedule: TaskScheduleRow) {
+	const nextRuns =
+		schedule.next_run_at === null
+			? []
+			: [
+					schedule.next_run_at,
+					...previewScheduleRuns(
+						scheduleTiming(schedule),
+						SCHEDULE_PREVIEW_RUNS - 1,
+						schedule.next_run_at,
+					),
+				];
+	return {
+		...schedule,
+		assignee_ids: JSON.parse(schedule.assignee_ids) as string[],
+		labels: JSON.parse(schedule.labels) as string[],
+		active: schedule.active === 1,
+		next_runs: nextRuns,
+	};
 }
 
 // ---------------------------------------------------------------------------
 // Hono app
 // ---------------------------------------------------------------------------
 
-export function createRestApp(): Hono {
-	const app = new Hono();
-	app.use('*', cors());
+export function createRestApp(): Hono<RestEnv> {
+	const app = new Hono<RestEnv>();
+	app.use('*', cors({ origin: CORS_ORIGINS }));
 
-	// Serve frontend
+	// Serve frontend — before authentication, so the UI can ask for a token
 	app.get('/', (_c) => {
 		const html = Bun.file(FRONTEND_INDEX_PATH);
 		return new Response(html, { headers: { 'Content-Type': 'text/html' } });
 	});
 
+	// Every other route needs an authenticated user, at least a viewer
+	app.use('*', authenticate());
+
+	// GET /me — the calling user and their role
+	app.get('/me', (c) => c.json({ user: c.get('user'), roles: ROLES }));
+
 	// Proxy: list running agents from NanoFleet
 	app.get('/agents', async (c) => {
 		try {
@@ -170,116 +1250,1288 @@ export function createRestApp(): Hono {
 		}
 	});
 
-	// GET /tasks — list all tasks
-	app.get('/tasks', (c) => {
-		const tasks = buildTaskList();
-		return c.json({ tasks });
+	// GET /events — live board changes (SSE), resumable via Last-Event-ID
+	app.get('/events', (c) => {
+		const lastEventId =
+			c.req.header('Last-Event-ID') ?? c.req.query('lastEventId');
+
+		return streamSSE(c, async (stream) => {
+			// Writes are chained so events go out in publish order
+			let chain: Promise<unknown> = Promise.resolve();
+			const write = (message: { id?: string; event: string; data: string }) => {
+				chain = chain.then(() => stream.writeSSE(message)).catch(() => {});
+			};
+			const send = (event: BoardEvent) =>
+				write({
+					id: event.id,
+					event: event.type,
+					data: JSON.stringify(event.data),
+				});
+
+			if (lastEventId) {
+				const missed = getBoardEventsSince(lastEventId);
+				// Too far behind to replay: the client must reload the board
+				if (missed) for (const event of missed) send(event);
+				else write({ event: 'reset', data: '{}' });
+			}
+			const unsubscribe = subscribeBoardEvents(send);
+			stream.onAbort(unsubscribe);
+
+			while (!stream.aborted) {
+				await stream.sleep(SSE_KEEPALIVE_MS);
+				if (!stream.aborted) write({ event: 'ping', data: '{}' });
+			}
+			unsubscribe();
+		});
 	});
 
-	// POST /tasks — create task
-	app.post('/tasks', async (c) => {
-		let body: { title?: string; description?: string; assigneeIds?: string[] };
-		try {
-			body = await c.req.json();
-		} catch {
-			return c.json({ error: 'Invalid JSON' }, 400);
-		}
+	// GET /search — full-text search over tasks, comments and results
+	app.get('/search', (c) => {
+		const q = c.req.query('q')?.trim();
+		if (!q) return c.json({ error: 'q is required' }, 400);
 
-		const { title, description, assigneeIds } = body;
-		if (!title || !Array.isArray(assigneeIds) || assigneeIds.length === 0) {
+		const kind = c.req.query('kind');
+		if (kind && !SEARCH_KINDS.includes(kind as SearchKind)) {
+			return c.json({ error: `kind must be one of ${SEARCH_KINDS}` }, 400);
+		}
+		const limit = Number(c.req.query('limit') ?? DEFAULT_SEARCH_LIMIT);
+		const offset = Number(c.req.query('offset') ?? 0);
+		if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
 			return c.json(
-				{ error: 'title and at least one assigneeId are required' },
+				{ error: `limit must be an integer between 1 and ${MAX_SEARCH_LIMIT}` },
 				400,
 			);
 		}
+		if (!Number.isInteger(offset) || offset < 0) {
+			return c.json({ error: 'offset must be a non-negative integer' }, 400);
+		}
 
-		const task = createTask(title, description ?? null, assigneeIds);
+		const { total, hits } = searchTasks(q, {
+			kind: (kind as SearchKind) || undefined,
+			limit,
+			offset,
+		});
+		return c.json({
+			query: q,
+			total,
+			limit,
+			offset,
+			results: hits.map((hit) => ({
+				...hit,
+				snippet: highlightSnippet(hit.snippet),
+			})),
+		});
+	});
 
-		// Fire-and-forget push to assignees
-		notifyAssignees(task.id, assigneeIds, task.title, task.description).catch(
-			(error) => {
-				console.warn('Failed to notify assignees for task', task.id, error);
-			},
-		);
+	// GET /workflow — allowed transitions, who may perform them, and error codes
+	app.get('/workflow', (c) => c.json(describeWorkflow()));
 
-		return c.json({ task }, 201);
+	// GET /stats — per-agent throughput, time to start, cycle time, review wait
+	// and rejection rate over a time window
+	app.get('/stats', (c) => {
+		const range = parseStatsRange(c.req.query());
+		if (typeof range === 'string') return c.json({ error: range }, 400);
+		return c.json(buildStats(range));
 	});
 
-	// GET /tasks/:id — task detail
-	app.get('/tasks/:id', (c) => {
-		const detail = buildTaskDetail(c.req.param('id'));
-		if (!detail) return c.json({ error: 'Task not found' }, 404);
-		return c.json({ task: detail });
+	// GET /metrics — the same figures in Prometheus text format
+	app.get('/metrics', (c) => {
+		c.header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+		return c.body(renderMetrics());
 	});
 
-	// PATCH /tasks/:id/status — human approves or rejects
-	app.patch('/tasks/:id/status', async (c) => {
-		const taskId = c.req.param('id');
-		const task = getTask(taskId);
-		if (!task) return c.json({ error: 'Task not found' }, 404);
+	// GET /tasks — list tasks, optionally filtered and sorted
+	app.get('/tasks', (c) => {
+		const filter = parseTaskFilter(c.req.query());
+		if (typeof filter === 'string') return c.json({ error: filter }, 400);
+		return c.json({ tasks: buildTaskList(filter) });
+	});
 
-		let body: { action?: 'approve' | 'reject'; feedback?: string };
+	// POST /tasks — create task
+	app.post('/tasks', requireRole('requester'), async (c) => {
+		let body: NewTaskBody;
 		try {
 			body = await c.req.json();
 		} catch {
 			return c.json({ error: 'Invalid JSON' }, 400);
 		}
 
-		const { action, feedback } = body;
-		if (action !== 'approve' && action !== 'reject') {
+		const input = parseNewTask(body);
+		if ('error' in input) return refusal(c, input);
+		const task = createAndAnnounceTask(input, userActor(c.get('user')));
+		return c.json({ task }, 201);
+	});
+
+	// POST /tasks/from-template/:templateId — create a task from a template
+	app.post(
+		'/tasks/from-template/:templateId',
+		requireRole('requester'),
+		async (c) => {
+			const template = getTaskTemplate(c.req.param('templateId'));
+			if (!template) return c.json({ error: 'Template not found' }, 404);
+
+			let body: NewTaskBody & { variables?: unknown };
+			try {
+				body = await c.req.json();
+			} catch {
+				return c.json({ error: 'Invalid JSON' }, 400);
+			}
+
+			const variables = parseTemplateValues(body.variables);
+			if (!variables) {
+				return c.json(
+					{ error: 'variables must be an object of strings or numbers' },
+					400,
+				);
+			}
+			const missing = templateVariables(
+				template.title,
+				template.description,
+			).filter((name) => !variables[name]?.trim());
+			if (missing.length > 0) {
+				return c.json({ error: 'Missing template variables', missing }, 400);
+			}
+
+			// Request fields override the template defaults
+			const input = parseNewTask({
+				...body,
+				title: renderTemplate(template.title, variables),
+				description:
+					template.description &&
+					renderTemplate(template.description, variables),
+				// A template without assignees leaves the choice to the board
+				assigneeIds:
+					body.assigneeIds ??
+					(template.assignee_ids === '[]'
+						? undefined
+						: JSON.parse(template.assignee_ids)),
+				labels: body.labels ?? JSON.parse(template.labels),
+				priority: body.priority ?? template.priority,
+			});
+			if ('error' in input) return refusal(c, input);
+			const task = createAndAnnounceTask(input, userActor(c.get('user')), {
+				templateId: template.id,
+				variables,
+			});
+			return c.json({ task }, 201);
+		},
+	);
+
+	// POST /tasks/bulk — create, review, reassign, archive or delete tasks in
+	// one batch; each item reports its own outcome
+	app.post('/tasks/bulk', requireRole('requester'), async (c) => {
+		const user = c.get('user');
+		let body: BulkBody;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: 'Invalid JSON' }, 400);
+		}
+
+		const request = parseBulkRequest(body);
+		if (typeof request === 'string') return c.json({ error: request }, 400);
+		const role = BULK_ACTION_ROLES[request.action];
+		if (!hasRole(user, role)) {
+			return c.json(
+				{
+					error: `This action needs the ${role} role`,
+					code: 'FORBIDDEN',
+					role: user.role,
+				},
+				403,
+			);
+		}
+		return c.json(await runBulkRequest(request, userActor(user)));
+	});
+
+	// GET /tasks/:id — task detail
+	app.get('/tasks/:id', (c) => {
+		const detail = buildTaskDetail(c.req.param('id'));
+		if (!detail) return c.json({ error: 'Task not found' }, 404);
+		return c.json({ task: detail });
+	});
+
+	// GET /tasks/:id/events — structured history, filterable by kind, actor and time
+	app.get('/tasks/:id/events', (c) => {
+		const taskId = c.req.param('id');
+		if (!getTask(taskId)) return c.json({ error: 'Task not found' }, 404);
+
+		const since = c.req.query('since');
+		if (since !== undefined && !Number.isFinite(Number(since))) {
+			return c.json({ error: 'since must be a timestamp in ms' }, 400);
+		}
+		const events = getTaskEvents(taskId, {
+			kind: c.req.query('kind'),
+			actorId: c.req.query('actorId'),
+			actorType: c.req.query('actorType'),
+			since: since !== undefined ? Number(since) : undefined,
+		});
+		return c.json({ events });
+	});
+
+	// GET /tasks/:id/artifacts — files attached to the task's results
+	app.get('/tasks/:id/artifacts', (c) => {
+		const taskId = c.req.param('id');
+		if (!getTask(taskId)) return c.json({ error: 'Task not found' }, 404);
+		return c.json({
+			artifacts: getTaskArtifacts(taskId).map(describeArtifact),
+		});
+	});
+
+	// GET /tasks/:id/artifacts/:artifactId — serve the file (?download=1 forces a download)
+	app.get('/tasks/:id/artifacts/:artifactId', async (c) => {
+		const taskId = c.req.param('id');
+		const artifact = getTaskArtifact(c.req.param('artifactId'));
+		if (!artifact || artifact.task_id !== taskId) {
+			return c.json({ error: 'Artifact not found' }, 404);
+		}
+		// Checked again: the file may have been removed or swapped for a symlink
+		const resolved = await resolveArtifactPath(taskId, artifact.path);
+		if (typeof resolved === 'string') {
+			return c.json({ error: 'The file is no longer available' }, 410);
+		}
+
+		const inline =
+			isInlineMimeType(artifact.mime_type) && c.req.query('download') !== '1';
+		const name = artifact.path.split('/').pop() ?? 'artifact';
+		return new Response(Bun.file(resolved.absolutePath), {
+			headers: {
+				'Content-Type': inline
+					? artifact.mime_type
+					: 'application/octet-stream',
+				'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(name)}`,
+				'X-Content-Type-Options': 'nosniff',
+				'Content-Security-Policy': 'sandbox',
+			},
+		});
+	});
+
+	// PATCH /tasks/:id — edit task fields
+	app.patch('/tasks/:id', requireRole('requester'), async (c) => {
+		const actor = userActor(c.get('user'));
+		const taskId = c.req.param('id');
+		const task = getTask(taskId);
+		if (!task) return c.json({ error: 'Task not found' }, 404);
+
+		let body: {
+			title?: unknown;
+			description?: unknown;
+			blockedBy?: unknown;
+			priority?: unknown;
+			dueAt?: unknown;
+			labels?: unknown;
+			capabilities?: unknown;
+			boardId?: unknown;
+		};
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: 'Invalid JSON' }, 400);
+		}
+
+		// Validate everything before changing anything
+		let blockedBy: string[] | null = null;
+		if (body.blockedBy !== undefined) {
+			blockedBy = parseBlockedBy(body.blockedBy);
+			if (!blockedBy) {
+				return c.json({ error: 'blockedBy must be an array of task IDs' }, 400);
+			}
+			const dependencyError = findDependencyError(taskId, blockedBy);
+			if (dependencyError) return c.json({ error: dependencyError }, 400);
+		}
+		const updates: TaskFieldUpdates = {};
+		if (body.title !== undefined) {
+			if (typeof body.title !== 'string' || !body.title.trim()) {
+				return c.json({ error: 'title must be a non-empty string' }, 400);
+			}
+			const title = body.title.trim();
+			if (title !== task.title) updates.title = title;
+		}
+		if (body.description !== undefined) {
+			if (body.description !== null && typeof body.description !== 'string') {
+				return c.json({ error: 'description must be a string or null' }, 400);
+			}
+			const description = body.description?.trim() || null;
+			if (description !== task.description) updates.description = description;
+		}
+		if (body.priority !== undefined) {
+			if (!isPriority(body.priority)) {
+				return c.json(
+					{ error: `priority must be one of ${TASK_PRIORITIES}` },
+					400,
+				);
+			}
+			if (body.priority !== task.priority) updates.priority = body.priority;
+		}
+		if (body.dueAt !== undefined) {
+			const dueAt = parseDueAt(body.dueAt);
+			if (dueAt === undefined) {
+				return c.json({ error: 'dueAt must be a timestamp or ISO date' }, 400);
+			}
+			if (dueAt !== task.due_at) updates.dueAt = dueAt;
+		}
+		if (body.boardId !== undefined) {
+			if (typeof body.boardId !== 'string' || !getBoard(body.boardId)) {
+				return c.json({ error: 'Board not found' }, 400);
+			}
+			if (body.boardId !== task.board_id) updates.boardId = body.boardId;
+		}
+		let labels: string[] | null = null;
+		if (body.labels !== undefined) {
+			labels = parseLabels(body.labels);
+			if (!labels) {
+				return c.json(
+					{
+						error: `labels must be an array of strings up to ${MAX_LABEL_LENGTH} characters`,
+					},
+					400,
+				);
+			}
+		}
+		let capabilities: string[] | null = null;
+		if (body.capabilities !== undefined) {
+			capabilities = parseLabels(body.capabilities);
+			if (!capabilities) {
+				return c.json(
+					{
+						error: `capabilities must be an array of strings up to ${MAX_LABEL_LENGTH} characters`,
+					},
+					400,
+				);
+			}
+		}
+
+		// Only fields that actually change are written and logged
+		const changes: Record<string, { from: unknown; to: unknown }> = {};
+		if (updates.title !== undefined) {
+			changes.title = { from: task.title, to: updates.title };
+		}
+		if (updates.description !== undefined) {
+			changes.description = { from: task.description, to: updates.description };
+		}
+		if (updates.priority !== undefined) {
+			changes.priority = { from: task.priority, to: updates.priority };
+		}
+		if (updates.dueAt !== undefined) {
+			changes.dueAt = { from: task.due_at, to: updates.dueAt };
+		}
+		if (updates.boardId !== undefined) {
+			changes.boardId = { from: task.board_id, to: updates.boardId };
+		}
+		updateTaskFields(taskId, updates);
+		if (labels) {
+			const previousLabels = getTaskLabels(taskId);
+			if (previousLabels.join('\n') !== [...labels].sort().join('\n')) {
+				changes.labels = { from: previousLabels, to: labels };
+				setTaskLabels(taskId, labels);
+			}
+		}
+		if (capabilities) {
+			const previousCapabilities = getTaskCapabilities(taskId);
+			if (
+				previousCapabilities.join('\n') !== [...capabilities].sort().join('\n')
+			) {
+				changes.capabilities = { from: previousCapabilities, to: capabilities };
+				setTaskCapabilities(taskId, capabilities);
+			}
+		}
+		if (Object.keys(changes).length > 0) {
+			recordTaskEvent(taskId, 'updated', actor, { payload: { changes } });
+			publishTaskUpdated(taskId);
+		}
+
+		if (blockedBy) {
+			const previousBlockers = getTaskBlockers(taskId);
+			const wasBlocked = getOpenBlockers(taskId).length > 0;
+			setTaskDependencies(taskId, blockedBy);
+			recordTaskEvent(taskId, 'dependencies_changed', actor, {
+				payload: { from: previousBlockers, to: blockedBy },
+			});
+			publishTaskUpdated(taskId, ...previousBlockers, ...blockedBy);
+			if (
+				wasBlocked &&
+				task.status === 'todo' &&
+				getOpenBlockers(taskId).length === 0
+			) {
+				releaseDependents([task]);
+			}
+		}
+
+		return c.json({ task: buildTaskDetail(taskId) });
+	});
+
+	// PATCH /tasks/:id/status — human approves or rejects
+	app.patch('/tasks/:id/status', requireRole('reviewer'), async (c) => {
+		const actor = userActor(c.get('user'));
+		const taskId = c.req.param('id');
+		const task = getTask(taskId);
+		if (!task) return c.json({ error: 'Task not found' }, 404);
+
+		let body: {
+			action?: 'approve' | 'reject';
+			feedback?: string;
+			agentId?: string;
+		};
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: 'Invalid JSON' }, 400);
+		}
+
+		const { action, feedback, agentId } = body;
+		if (action !== 'approve' && action !== 'reject') {
 			return c.json({ error: 'action must be "approve" or "reject"' }, 400);
 		}
+		if (action === 'reject' && !feedback) {
+			return c.json({ error: 'feedback is required when rejecting' }, 400);
+		}
+
+		const refused = reviewTask(task, action, actor, feedback ?? '', agentId);
+		if (refused) return refusal(c, refused);
+
+		const updated = buildTaskDetail(taskId);
+		return c.json({ task: updated });
+	});
+
+	// POST /tasks/:id/assignees — assign more agents
+	app.post('/tasks/:id/assignees', requireRole('requester'), async (c) => {
+		const taskId = c.req.param('id');
+		const task = getTask(taskId);
+		if (!task) return c.json({ error: 'Task not found' }, 404);
+		if (task.status === 'done') {
+			return c.json({ error: 'The assignees of a done task are frozen' }, 409);
+		}
+		if (task.archived_at !== null) {
+			return c.json({ error: WORKFLOW_ERRORS.ARCHIVED, code: 'ARCHIVED' }, 409);
+		}
 
-		if (action === 'approve') {
-			updateTaskStatus(taskId, 'done');
-			addComment(
-				taskId,
-				'human',
-				'human',
-				'Human',
-				'[System] Task approved and marked as done.',
+		let body: { agentIds?: unknown };
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: 'Invalid JSON' }, 400);
+		}
+		const agentIds = parseAgentIds(body.agentIds);
+		if (!agentIds) {
+			return c.json(
+				{ error: 'agentIds must be a non-empty array of agent IDs' },
+				400,
 			);
-		} else {
-			if (!feedback)
-				return c.json({ error: 'feedback is required when rejecting' }, 400);
-			updateTaskStatus(taskId, 'in_progress');
-			addComment(taskId, 'human', 'human', 'Human', `[Feedback] ${feedback}`);
-
-			// Notify assignees
-			const assignees = getTaskAssignees(taskId);
-			notifyRejection(taskId, assignees, task.title, feedback).catch(
+		}
+
+		const previous = getTaskAssignees(taskId);
+		const added = agentIds.filter((id) => !previous.includes(id));
+		if (added.length > 0) {
+			addTaskAssignees(taskId, added);
+			recordAssigneeChange(taskId, previous, userActor(c.get('user')));
+			notifyAssignees(taskId, added, task.title, task.description).catch(
 				(error) => {
 					console.warn('Failed to notify assignees for task', taskId, error);
 				},
 			);
 		}
 
-		const updated = buildTaskDetail(taskId);
-		return c.json({ task: updated });
+		return c.json({ task: buildTaskDetail(taskId) });
 	});
 
-	// POST /tasks/:id/comments — human adds comment
-	app.post('/tasks/:id/comments', async (c) => {
+	// DELETE /tasks/:id/assignees/:agentId — unassign an agent
+	app.delete('/tasks/:id/assignees/:agentId', requireRole('requester'), (c) => {
 		const taskId = c.req.param('id');
-		if (!getTask(taskId)) return c.json({ error: 'Task not found' }, 404);
+		const agentId = c.req.param('agentId');
+		const task = getTask(taskId);
+		if (!task) return c.json({ error: 'Task not found' }, 404);
+		if (task.status === 'done') {
+			return c.json({ error: 'The assignees of a done task are frozen' }, 409);
+		}
+		if (task.archived_at !== null) {
+			return c.json({ error: WORKFLOW_ERRORS.ARCHIVED, code: 'ARCHIVED' }, 409);
+		}
+
+		const previous = getTaskAssignees(taskId);
+		if (!previous.includes(agentId)) {
+			return c.json({ error: 'Agent is not assigned to this task' }, 404);
+		}
+		// Without its last assignee the task goes back to the pool, which
+		// only takes tasks nobody has started
+		const backToPool = previous.length === 1;
+		if (backToPool && task.status !== 'todo') {
+			return c.json(
+				{
+					error:
+						'Only a todo task can go back to the pool; assign another agent first',
+				},
+				409,
+			);
+		}
+
+		// Pushes still queued for the agent no longer apply
+		dropPendingNotifications(taskId, agentId);
+		removeTaskAssignee(taskId, agentId);
+		recordAssigneeChange(taskId, previous, userActor(c.get('user')));
+		notifyUnassigned(taskId, [agentId], task.title).catch((error) => {
+			console.warn('Failed to notify unassigned agent for task', taskId, error);
+		});
+		if (backToPool) {
+			announcePoolTask(task).catch((error) => {
+				console.warn('Failed to announce pool task', taskId, error);
+			});
+		}
+
+		return c.json({ task: buildTaskDetail(taskId) });
+	});
+
+	// POST /tasks/:id/comments — human adds comment; it answers the agents
+	// waiting for input (or only `agentId`), who get it pushed
+	app.post('/tasks/:id/comments', requireRole('requester'), async (c) => {
+		const actor = userActor(c.get('user'));
+		const taskId = c.req.param('id');
+		const task = getTask(taskId);
+		if (!task) return c.json({ error: 'Task not found' }, 404);
+
+		let body: { content?: string; agentId?: string };
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: 'Invalid JSON' }, 400);
+		}
+
+		const { content, agentId } = body;
+		if (!content) return c.json({ error: 'content is required' }, 400);
+
+		// An explicit agentId must be waiting for an answer
+		if (agentId) {
+			const check = checkTransition(task, 'answer', actor, agentId);
+			if (!check.ok) {
+				return c.json(
+					{ error: check.error, code: check.code, ...check.details },
+					WORKFLOW_HTTP_STATUS[check.code],
+				);
+			}
+		}
+
+		const comment = addComment(taskId, actor.id, 'human', actor.name, content);
+		recordTaskEvent(taskId, 'commented', actor, {
+			payload: { commentId: comment.id },
+		});
+		publishComment(comment);
+
+		// Once the task is done or archived, open questions no longer matter
+		const answered = agentId
+			? [agentId]
+			: task.status === 'done' || task.archived_at !== null
+				? []
+				: getTaskAssignments(taskId)
+						.filter((a) => a.status === 'needs_input')
+						.map((a) => a.agent_id);
+		if (answered.length > 0) {
+			setAssigneeStatus(taskId, answered, TRANSITIONS.answer.to);
+			const taskStatus = syncTaskStatus(taskId);
+			recordTaskEvent(taskId, 'answered', actor, {
+				from: taskStatus.from,
+				to: taskStatus.to,
+				payload: { agentIds: answered, commentId: comment.id },
+			});
+			publishTaskUpdated(taskId);
+			notifyAnswer(taskId, answered, task.title, content).catch((error) => {
+				console.warn('Failed to send answer for task', taskId, error);
+			});
+		}
+
+		return c.json({ comment, answered }, 201);
+	});
+
+	// POST /tasks/:id/notifications/:notificationId/resend — push it to the agent again
+	app.post(
+		'/tasks/:id/notifications/:notificationId/resend',
+		requireRole('requester'),
+		(c) => {
+			const notification = getNotification(c.req.param('notificationId'));
+			if (!notification || notification.task_id !== c.req.param('id')) {
+				return c.json({ error: 'Notification not found' }, 404);
+			}
+			resendNotification(notification.id);
+			const queued = getNotification(notification.id);
+			if (queued) publishNotification(queued);
+			processNotificationOutbox();
+			return c.json({ notification: queued }, 202);
+		},
+	);
+
+	// POST /tasks/:id/archive — hide the task and its subtasks
+	app.post('/tasks/:id/archive', requireRole('requester'), (c) => {
+		const taskId = c.req.param('id');
+		const task = getTask(taskId);
+		if (!task) return c.json({ error: 'Task not found' }, 404);
+		if (task.archived_at !== null) {
+			return c.json({ error: 'The task is already archived' }, 409);
+		}
+		const archived = archiveTask(taskId, userActor(c.get('user')));
+		return c.json({ task: getTask(taskId), archived });
+	});
+
+	// POST /tasks/:id/unarchive — bring the task and its subtasks back
+	app.post('/tasks/:id/unarchive', requireRole('requester'), (c) => {
+		const taskId = c.req.param('id');
+		const task = getTask(taskId);
+		if (!task) return c.json({ error: 'Task not found' }, 404);
+		if (task.archived_at === null) {
+			return c.json({ error: 'The task is not archived' }, 409);
+		}
+		const unarchived = unarchiveTask(taskId, userActor(c.get('user')));
+		return c.json({ task: getTask(taskId), unarchived });
+	});
+
+	// DELETE /tasks/:id — delete an archived task for good
+	app.delete('/tasks/:id', requireRole('admin'), (c) => {
+		const actor = userActor(c.get('user'));
+		const taskId = c.req.param('id');
+		const task = getTask(taskId);
+		if (!task) return c.json({ error: 'Task not found' }, 404);
+		const refused = purgeTask(task, actor);
+		if (refused) return refusal(c, refused);
+		return c.json({ ok: true });
+	});
 
-		let body: { content?: string };
+	// ---------------------------------------------------------------------------
+	// Boards
+	// ---------------------------------------------------------------------------
+
+	// GET /boards — every board with its columns, the default board first
+	app.get('/boards', (c) => {
+		return c.json({ boards: listBoards().map(describeBoard) });
+	});
+
+	// POST /boards — create a board; columns default to the standard four
+	app.post('/boards', requireRole('admin'), async (c) => {
+		let body: BoardBody;
 		try {
 			body = await c.req.json();
 		} catch {
 			return c.json({ error: 'Invalid JSON' }, 400);
 		}
 
-		if (!body.content) return c.json({ error: 'content is required' }, 400);
+		const updates = parseBoardUpdates(body);
+		if (typeof updates === 'string') return c.json({ error: updates }, 400);
+		if (!updates.name) return c.json({ error: 'name is required' }, 400);
+		if (getBoardByName(updates.name)) {
+			return c.json({ error: 'A board with this name already exists' }, 409);
+		}
+
+		const board = createBoard({
+			name: updates.name,
+			description: updates.description ?? null,
+			columns: updates.columns ?? DEFAULT_BOARD_COLUMNS,
+			defaultAssigneeIds: updates.defaultAssigneeIds ?? [],
+		});
+		return c.json({ board: describeBoard(board) }, 201);
+	});
 
-		const comment = addComment(taskId, 'human', 'human', 'Human', body.content);
-		return c.json({ comment }, 201);
+	// GET /boards/:id — one board
+	app.get('/boards/:id', (c) => {
+		const board = getBoard(c.req.param('id'));
+		if (!board) return c.json({ error: 'Board not found' }, 404);
+		return c.json({ board: describeBoard(board) });
 	});
 
-	// DELETE /tasks/:id — delete task
-	app.delete('/tasks/:id', (c) => {
-		const deleted = deleteTask(c.req.param('id'));
-		if (!deleted) return c.json({ error: 'Task not found' }, 404);
+	// PATCH /boards/:id — rename, change columns or default assignees
+	app.patch('/boards/:id', requireRole('admin'), async (c) => {
+		const boardId = c.req.param('id');
+		if (!getBoard(boardId)) return c.json({ error: 'Board not found' }, 404);
+
+		let body: BoardBody;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: 'Invalid JSON' }, 400);
+		}
+
+		const updates = parseBoardUpdates(body);
+		if (typeof updates === 'string') return c.json({ error: updates }, 400);
+		if (updates.name !== undefined) {
+			const existing = getBoardByName(updates.name);
+			if (existing && existing.id !== boardId) {
+				return c.json({ error: 'A board with this name already exists' }, 409);
+			}
+		}
+
+		updateBoard(boardId, updates);
+		const board = getBoard(boardId);
+		return c.json({ board: board && describeBoard(board) });
+	});
+
+	// DELETE /boards/:id — only empty boards, and never the default one
+	app.delete('/boards/:id', requireRole('admin'), (c) => {
+		const boardId = c.req.param('id');
+		if (!getBoard(boardId)) return c.json({ error: 'Board not found' }, 404);
+		if (boardId === DEFAULT_BOARD_ID) {
+			return c.json({ error: 'The default board cannot be deleted' }, 409);
+		}
+		const usage = getBoardUsage(boardId);
+		if (usage.tasks > 0 || usage.schedules > 0) {
+			return c.json(
+				{
+					error: 'Move or delete the tasks and schedules of this board first',
+					...usage,
+				},
+				409,
+			);
+		}
+		deleteBoard(boardId);
+		return c.json({ ok: true });
+	});
+
+	// GET /boards/:id/tasks — the board's tasks, with the filters of GET /tasks
+	app.get('/boards/:id/tasks', (c) => {
+		const boardId = c.req.param('id');
+		if (!getBoard(boardId)) return c.json({ error: 'Board not found' }, 404);
+		const filter = parseTaskFilter(c.req.query());
+		if (typeof filter === 'string') return c.json({ error: filter }, 400);
+		return c.json({ tasks: buildTaskList({ ...filter, boardId }) });
+	});
+
+	// POST /boards/:id/tasks — create a task on the board; without assigneeIds
+	// it goes to the board's default assignees
+	app.post('/boards/:id/tasks', requireRole('requester'), async (c) => {
+		const boardId = c.req.param('id');
+		if (!getBoard(boardId)) return c.json({ error: 'Board not found' }, 404);
+
+		let body: NewTaskBody;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: 'Invalid JSON' }, 400);
+		}
+
+		const input = parseNewTask({ ...body, boardId });
+		if ('error' in input) return refusal(c, input);
+		const task = createAndAnnounceTask(input, userActor(c.get('user')));
+		return c.json({ task }, 201);
+	});
+
+	// ---------------------------------------------------------------------------
+	// Export / import / backup
+	// ---------------------------------------------------------------------------
+
+	// GET /export — the whole board as JSON (?format=csv for a flat task list)
+	app.get('/export', (c) => {
+		const format = c.req.query('format') ?? 'json';
+		if (format !== 'json' && format !== 'csv') {
+			return c.json({ error: 'format must be "json" or "csv"' }, 400);
+		}
+		const filename = `nanofleet-tasks-${new Date().toISOString().slice(0, 10)}.${format}`;
+		c.header('Content-Disposition', `attachment; filename="${filename}"`);
+		if (format === 'csv') {
+			c.header('Content-Type', 'text/csv; charset=utf-8');
+			return c.body(exportBoardCsv());
+		}
+		return c.json(exportBoard());
+	});
+
+	// POST /import — load a JSON export; ?onConflict= decides what happens to
+	// tasks that already exist, ?dryRun=true only reports what would change
+	app.post('/import', requireRole('admin'), async (c) => {
+		const onConflict = c.req.query('onConflict') ?? 'fail';
+		if (
+			!IMPORT_CONFLICT_STRATEGIES.includes(onConflict as ImportConflictStrategy)
+		) {
+			return c.json(
+				{ error: `onConflict must be one of ${IMPORT_CONFLICT_STRATEGIES}` },
+				400,
+			);
+		}
+		const dryRun = c.req.query('dryRun');
+		if (dryRun && dryRun !== 'true' && dryRun !== 'false') {
+			return c.json({ error: 'dryRun must be "true" or "false"' }, 400);
+		}
+
+		let body: unknown;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: 'Invalid JSON' }, 400);
+		}
+		const data = parseBoardExport(body);
+		if (typeof data === 'string') return c.json({ error: data }, 400);
+
+		let summary: ImportSummary;
+		try {
+			summary = importBoard(data, {
+				onConflict: onConflict as ImportConflictStrategy,
+				dryRun: dryRun === 'true',
+			});
+		} catch (err) {
+			if (err instanceof ImportConflictError) {
+				return c.json(
+					{ error: err.message, code: 'IMPORT_CONFLICT', taskIds: err.taskIds },
+					409,
+				);
+			}
+			// e.g. a comment or result ID already used by another task
+			return c.json(
+				{ error: `Import failed: ${err instanceof Error ? err.message : err}` },
+				409,
+			);
+		}
+
+		if (!summary.dryRun) {
+			for (const taskId of summary.created) publishTaskCreated(taskId);
+			publishTaskUpdated(...summary.overwritten);
+		}
+		return c.json(summary);
+	});
+
+	// GET /backup — consistent SQLite snapshot of the live database
+	app.get('/backup', requireRole('admin'), async (_c) => {
+		const path = join(tmpdir(), `nanofleet-tasks-backup-${randomUUID()}.db`);
+		try {
+			backupDatabase(path);
+			const data = await Bun.file(path).arrayBuffer();
+			const filename = `nanofleet-tasks-${new Date().toISOString().replace(/[:.]/g, '-')}.db`;
+			return new Response(data, {
+				headers: {
+					'Content-Type': 'application/vnd.sqlite3',
+					'Content-Disposition': `attachment; filename="${filename}"`,
+				},
+			});
+		} finally {
+			await rm(path, { force: true });
+		}
+	});
+
+	// ---------------------------------------------------------------------------
+	// Webhooks
+	// ---------------------------------------------------------------------------
+
+	// GET /webhooks — list subscriptions
+	app.get('/webhooks', requireRole('admin'), (c) =>
+		c.json({
+			webhooks: listWebhooks().map(describeWebhook),
+			eventTypes: WEBHOOK_EVENT_TYPES,
+		}),
+	);
+
+	// POST /webhooks — subscribe a URL to task events
+	app.post('/webhooks', requireRole('admin'), async (c) => {
+		let body: {
+			url?: unknown;
+			eventTypes?: unknown;
+			secret?: unknown;
+			description?: unknown;
+		};
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: 'Invalid JSON' }, 400);
+		}
+
+		const url = parseWebhookUrl(body.url);
+		if (!url) return c.json({ error: 'url must be an http(s) URL' }, 400);
+		const eventTypes = parseEventTypes(body.eventTypes);
+		if (!eventTypes) {
+			return c.json(
+				{ error: `eventTypes must be a subset of ${WEBHOOK_EVENT_TYPES}` },
+				400,
+			);
+		}
+		if (body.secret !== undefined && typeof body.secret !== 'string') {
+			return c.json({ error: 'secret must be a string' }, 400);
+		}
+		if (
+			body.description !== undefined &&
+			typeof body.description !== 'string'
+		) {
+			return c.json({ error: 'description must be a string' }, 400);
+		}
+
+		const secret = body.secret || generateWebhookSecret();
+		const webhook = createWebhook(
+			url,
+			secret,
+			eventTypes,
+			body.description ?? null,
+		);
+		return c.json({ webhook: describeWebhook(webhook), secret }, 201);
+	});
+
+	// GET /webhooks/:id — one subscription
+	app.get('/webhooks/:id', requireRole('admin'), (c) => {
+		const webhook = getWebhook(c.req.param('id'));
+		if (!webhook) return c.json({ error: 'Webhook not found' }, 404);
+		return c.json({ webhook: describeWebhook(webhook) });
+	});
+
+	// PATCH /webhooks/:id — change URL, filter, description or pause it
+	app.patch('/webhooks/:id', requireRole('admin'), async (c) => {
+		const webhookId = c.req.param('id');
+		if (!getWebhook(webhookId)) {
+			return c.json({ error: 'Webhook not found' }, 404);
+		}
+
+		let body: {
+			url?: unknown;
+			eventTypes?: unknown;
+			description?: unknown;
+			active?: unknown;
+		};
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: 'Invalid JSON' }, 400);
+		}
+
+		const updates: WebhookUpdates = {};
+		if (body.url !== undefined) {
+			const url = parseWebhookUrl(body.url);
+			if (!url) return c.json({ error: 'url must be an http(s) URL' }, 400);
+			updates.url = url;
+		}
+		if (body.eventTypes !== undefined) {
+			const eventTypes = parseEventTypes(body.eventTypes);
+			if (!eventTypes) {
+				return c.json(
+					{ error: `eventTypes must be a subset of ${WEBHOOK_EVENT_TYPES}` },
+					400,
+				);
+			}
+			updates.eventTypes = eventTypes;
+		}
+		if (body.description !== undefined) {
+			if (body.description !== null && typeof body.description !== 'string') {
+				return c.json({ error: 'description must be a string' }, 400);
+			}
+			updates.description = body.description;
+		}
+		if (body.active !== undefined) {
+			if (typeof body.active !== 'boolean') {
+				return c.json({ error: 'active must be a boolean' }, 400);
+			}
+			updates.active = body.active;
+		}
+
+		updateWebhook(webhookId, updates);
+		const webhook = getWebhook(webhookId);
+		return c.json({ webhook: webhook && describeWebhook(webhook) });
+	});
+
+	// DELETE /webhooks/:id — unsubscribe; pending deliveries are dropped
+	app.delete('/webhooks/:id', requireRole('admin'), (c) => {
+		if (!deleteWebhook(c.req.param('id'))) {
+			return c.json({ error: 'Webhook not found' }, 404);
+		}
+		return c.json({ ok: true });
+	});
+
+	// POST /webhooks/:id/ping — queue a test delivery, whatever the filter
+	app.post('/webhooks/:id/ping', requireRole('admin'), (c) => {
+		const actor = userActor(c.get('user'));
+		const webhookId = c.req.param('id');
+		if (!getWebhook(webhookId)) {
+			return c.json({ error: 'Webhook not found' }, 404);
+		}
+		enqueueWebhookDeliveries(
+			{ type: 'ping', taskId: null, actor: actor },
+			webhookId,
+		);
+		return c.json({ ok: true }, 202);
+	});
+
+	// GET /webhooks/:id/deliveries — delivery log, newest first
+	app.get('/webhooks/:id/deliveries', requireRole('admin'), (c) => {
+		const webhookId = c.req.param('id');
+		if (!getWebhook(webhookId)) {
+			return c.json({ error: 'Webhook not found' }, 404);
+		}
+
+		const status = c.req.query('status');
+		if (
+			status &&
+			!WEBHOOK_DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)
+		) {
+			return c.json(
+				{ error: `status must be one of ${WEBHOOK_DELIVERY_STATUSES}` },
+				400,
+			);
+		}
+		const limit = Number(c.req.query('limit') ?? 50);
+		const offset = Number(c.req.query('offset') ?? 0);
+		if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DELIVERY_LIMIT) {
+			return c.json(
+				{
+					error: `limit must be an integer between 1 and ${MAX_DELIVERY_LIMIT}`,
+				},
+				400,
+			);
+		}
+		if (!Number.isInteger(offset) || offset < 0) {
+			return c.json({ error: 'offset must be a non-negative integer' }, 400);
+		}
+
+		const deliveries = getWebhookDeliveries(webhookId, {
+			status: (status as WebhookDeliveryStatus) || undefined,
+			limit,
+			offset,
+		});
+		return c.json({ deliveries: deliveries.map(describeDelivery) });
+	});
+
+	// POST /webhooks/:id/deliveries/:deliveryId/retry — send again now
+	app.post(
+		'/webhooks/:id/deliveries/:deliveryId/retry',
+		requireRole('admin'),
+		(c) => {
+			const delivery = getWebhookDelivery(c.req.param('deliveryId'));
+			if (!delivery || delivery.webhook_id !== c.req.param('id')) {
+				return c.json({ error: 'Delivery not found' }, 404);
+			}
+			retryWebhookDelivery(delivery.id);
+			return c.json({ ok: true }, 202);
+		},
+	);
+
+	// -------------------------------------------------------------------------
+	// Templates
+	// -------------------------------------------------------------------------
+
+	// GET /templates — all templates with the variables they use
+	app.get('/templates', (c) => {
+		return c.json({ templates: listTaskTemplates().map(describeTemplate) });
+	});
+
+	// POST /templates — save a reusable task
+	app.post('/templates', requireRole('requester'), async (c) => {
+		let body: TemplateBody;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: 'Invalid JSON' }, 400);
+		}
+
+		const updates = parseTemplateUpdates(body);
+		if (typeof updates === 'string') return c.json({ error: updates }, 400);
+		const { name, title } = updates;
+		if (!name || !title) {
+			return c.json({ error: 'name and title are required' }, 400);
+		}
+		if (getTaskTemplateByName(name)) {
+			return c.json({ error: 'A template with this name already exists' }, 409);
+		}
+
+		const template = createTaskTemplate({
+			name,
+			title,
+			description: updates.description ?? null,
+			assigneeIds: updates.assigneeIds ?? [],
+			labels: updates.labels ?? [],
+			priority: updates.priority ?? 'normal',
+		});
+		return c.json({ template: describeTemplate(template) }, 201);
+	});
+
+	// GET /templates/:id — one template
+	app.get('/templates/:id', (c) => {
+		const template = getTaskTemplate(c.req.param('id'));
+		if (!template) return c.json({ error: 'Template not found' }, 404);
+		return c.json({ template: describeTemplate(template) });
+	});
+
+	// PATCH /templates/:id — edit a template; tasks created from it are unchanged
+	app.patch('/templates/:id', requireRole('requester'), async (c) => {
+		const templateId = c.req.param('id');
+		if (!getTaskTemplate(templateId)) {
+			return c.json({ error: 'Template not found' }, 404);
+		}
+
+		let body: TemplateBody;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: 'Invalid JSON' }, 400);
+		}
+
+		const updates = parseTemplateUpdates(body);
+		if (typeof updates === 'string') return c.json({ error: updates }, 400);
+		if (updates.name !== undefined) {
+			const existing = getTaskTemplateByName(updates.name);
+			if (existing && existing.id !== templateId) {
+				return c.json(
+					{ error: 'A template with this name already exists' },
+					409,
+				);
+			}
+		}
+
+		updateTaskTemplate(templateId, updates);
+		const template = getTaskTemplate(templateId);
+		return c.json({ template: template && describeTemplate(template) });
+	});
+
+	// DELETE /templates/:id — delete a template
+	app.delete('/templates/:id', requireRole('requester'), (c) => {
+		if (!deleteTaskTemplate(c.req.param('id'))) {
+			return c.json({ error: 'Template not found' }, 404);
+		}
+		return c.json({ ok: true });
+	});
+
+	// -------------------------------------------------------------------------
+	// Schedules
+	// -------------------------------------------------------------------------
+
+	// GET /schedules — all schedules with their upcoming runs
+	app.get('/schedules', (c) => {
+		return c.json({ schedules: listTaskSchedules().map(describeSchedule) });
+	});
+
+	// GET /schedules/preview — upcoming runs of a cron expression or interval
+	app.get('/schedules/preview', (c) => {
+		const intervalQuery = c.req.query('intervalMinutes');
+		const timing = parseScheduleTiming(
+			c.req.query('cron'),
+			intervalQuery === undefined ? undefined : Number(intervalQuery),
+		);
+		if (typeof timing === 'string') return c.json({ error: timing }, 400);
+		const count = Number(c.req.query('count') ?? SCHEDULE_PREVIEW_RUNS);
+		if (
+			!Number.isInteger(count) ||
+			count < 1 ||
+			count > MAX_SCHEDULE_PREVIEW_RUNS
+		) {
+			return c.json(
+				{
+					error: `count must be an integer between 1 and ${MAX_SCHEDULE_PREVIEW_RUNS}`,
+				},
+				400,
+			);
+		}
+		return c.json({ runs: previewScheduleRuns(timing, count) });
+	});
+
+	// POST /schedules — create tasks on a cron expression or interval
+	app.post('/schedules', requireRole('requester'), async (c) => {
+		let body: ScheduleBody;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: 'Invalid JSON' }, 400);
+		}
+
+		const updates = parseScheduleUpdates(body);
+		if (typeof updates === 'string') return c.json({ error: updates }, 400);
+		const { title, assigneeIds } = updates;
+		if (!title || !assigneeIds) {
+			return c.json(
+				{ error: 'title and at least one assigneeId are required' },
+				400,
+			);
+		}
+		if (updates.cron === undefined) {
+			return c.json(
+				{ error: 'one of cron and intervalMinutes is required' },
+				400,
+			);
+		}
+		const reviewQuorum = updates.reviewQuorum ?? null;
+		if (reviewQuorum !== null && reviewQuorum > assigneeIds.length) {
+			return c.json(
+				{
+					error:
+						'reviewQuorum must be an integer between 1 and the number of assignees',
+				},
+				400,
+			);
+		}
+
+		const timing = {
+			cron: updates.cron,
+			intervalMinutes: updates.intervalMinutes ?? null,
+		};
+		const schedule = createTaskSchedule(
+			{
+				boardId: updates.boardId ?? DEFAULT_BOARD_ID,
+				title,
+				description: updates.description ?? null,
+				assigneeIds,
+				priority: updates.priority ?? 'normal',
+				labels: updates.labels ?? [],
+				reviewQuorum,
+				...timing,
+			},
+			updates.active === false ? null : nextScheduleRun(timing, Date.now()),
+		);
+		if (updates.active === false) {
+			updateTaskSchedule(schedule.id, { active: false });
+		}
+		const created = getTaskSchedule(schedule.id);
+		return c.json({ schedule: created && describeSchedule(created) }, 201);
+	});
+
+	// GET /schedules/:id — one schedule with its upcoming runs
+	app.get('/schedules/:id', (c) => {
+		const schedule = getTaskSchedule(c.req.param('id'));
+		if (!schedule) return c.json({ error: 'Schedule not found' }, 404);
+		return c.json({ schedule: describeSchedule(schedule) });
+	});
+
+	// PATCH /schedules/:id — edit the task template or timing, pause or resume
+	app.patch('/schedules/:id', requireRole('requester'), async (c) => {
+		const scheduleId = c.req.param('id');
+		const schedule = getTaskSchedule(scheduleId);
+		if (!schedule) return c.json({ error: 'Schedule not found' }, 404);
+
+		let body: ScheduleBody;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: 'Invalid JSON' }, 400);
+		}
+
+		const updates = parseScheduleUpdates(body);
+		if (typeof updates === 'string') return c.json({ error: updates }, 400);
+		const reviewQuorum =
+			updates.reviewQuorum !== undefined
+				? updates.reviewQuorum
+				: schedule.review_quorum;
+		const assigneeCount = (
+			updates.assigneeIds ?? (JSON.parse(schedule.assignee_ids) as string[])
+		).length;
+		if (reviewQuorum !== null && reviewQuorum > assigneeCount) {
+			return c.json(
+				{
+					error:
+						'reviewQuorum must be an integer between 1 and the number of assignees',
+				},
+				400,
+			);
+		}
+
+		// Runs missed while paused are not caught up: resuming, like changing
+		// the timing, starts counting from now
+		const active = updates.active ?? schedule.active === 1;
+		const timingChanged = updates.cron !== undefined;
+		if (!active) {
+			updates.nextRunAt = null;
+		} else if (timingChanged || schedule.active === 0) {
+			updates.nextRunAt = nextScheduleRun(
+				timingChanged
+					? {
+							cron: updates.cron ?? null,
+							intervalMinutes: updates.intervalMinutes ?? null,
+						}
+					: scheduleTiming(schedule),
+				Date.now(),
+			);
+		}
+
+		updateTaskSchedule(scheduleId, updates);
+		const updated = getTaskSchedule(scheduleId);
+		return c.json({ schedule: updated && describeSchedule(updated) });
+	});
+
+	// DELETE /schedules/:id — stop the schedule; tasks it created are kept
+	app.delete('/schedules/:id', requireRole('requester'), (c) => {
+		if (!deleteTaskSchedule(c.req.param('id'))) {
+			return c.json({ error: 'Schedule not found' }, 404);
+		}
 		return c.json({ ok: true });
 	});
 
@@ -298,6 +2550,8 @@ export async function startRestApi(): Promise<void> {
 	Bun.serve({
 		port,
 		fetch: app.fetch,
+		// Longer than SSE_KEEPALIVE_MS so idle event streams stay open
+		idleTimeout: 60,
 	});
 
 	console.log(`[REST] Server listening on :${port}`);
@@ -0,0 +1,199 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { Context, MiddlewareHandler } from 'hono';
+import type { Actor } from './db';
+
+// Who is calling the REST API. The methods listed in REST_AUTH are tried in
+// order:
+//  - proxy: identity headers set by the NanoFleet proxy, trusted only when
+//    they come with REST_PROXY_SECRET
+//  - token: API tokens listed in REST_API_TOKENS as "userId:role:token"
+//  - none: every caller is an anonymous admin (the default, for local use)
+
+export type Role = 'viewer' | 'requester' | 'reviewer' | 'admin';
+// Each role has the rights of the ones before it
+export const ROLES: Role[] = ['viewer', 'requester', 'reviewer', 'admin'];
+
+type AuthMethod = 'proxy' | 'token' | 'none';
+const AUTH_METHODS: AuthMethod[] = ['proxy', 'token', 'none'];
+
+export interface HumanUser {
+	id: string;
+	name: string;
+	role: Role;
+}
+
+export type RestEnv = { Variables: { user: HumanUser } };
+
+const PROXY_SECRET_HEADER = 'X-NanoFleet-Proxy-Secret';
+const PROXY_USER_ID_HEADER = 'X-NanoFleet-User-Id';
+const PROXY_USER_NAME_HEADER = 'X-NanoFleet-User-Name';
+const PROXY_USER_ROLE_HEADER = 'X-NanoFleet-User-Role';
+
+const ANONYMOUS_USER: HumanUser = { id: 'human', name: 'Human', role: 'admin' };
+
+function isRole(value: unknown): value is Role {
+	return ROLES.includes(value as Role);
+}
+
+function hashSecret(value: string): Buffer {
+	return createHash('sha256').update(value).digest();
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+const authMethods = (process.env.REST_AUTH ?? 'none')
+	.split(',')
+	.map((m) => m.trim())
+	.filter(Boolean) as AuthMethod[];
+if (
+	authMethods.length === 0 ||
+	!authMethods.every((m) => AUTH_METHODS.includes(m))
+) {
+	throw new Error(`REST_AUTH must list methods among ${AUTH_METHODS}`);
+}
+if (authMethods.includes('none') && authMethods.length > 1) {
+	throw new Error('REST_AUTH=none cannot be combined with other methods');
+}
+export const REST_AUTH_ENABLED = !authMethods.includes('none');
+
+const defaultRole = process.env.REST_DEFAULT_ROLE ?? 'viewer';
+if (!isRole(defaultRole)) {
+	throw new Error(`REST_DEFAULT_ROLE must be one of ${ROLES}`);
+}
+
+const proxySecret = process.env.REST_PROXY_SECRET ?? '';
+if (authMethods.includes('proxy') && !proxySecret) {
+	throw new Error(
+		'REST_PROXY_SECRET must be set when REST_AUTH includes proxy',
+	);
+}
+
+function parseApiTokens(value: string): { user: HumanUser; hash: Buffer }[] {
+	return value
+		.split(',')
+		.map((entry) => entry.trim())
+		.filter(Boolean)
+		.map((entry) => {
+			const [id, role, ...rest] = entry.split(':');
+			const token = rest.join(':');
+			if (!id || !isRole(role) || !token) {
+				throw new Error(
+					`REST_API_TOKENS entries must look like "userId:role:token" with a role among ${ROLES}`,
+				);
+			}
+			return { user: { id, name: id, role }, hash: hashSecret(token) };
+		});
+}
+
+const apiTokens = authMethods.includes('token')
+	? parseApiTokens(process.env.REST_API_TOKENS ?? '')
+	: [];
+if (authMethods.includes('token') && apiTokens.length === 0) {
+	throw new Error('REST_API_TOKENS must list at least one token');
+}
+
+// Cross-origin calls are only allowed from REST_CORS_ORIGINS, or from
+// anywhere while authentication is off
+export const CORS_ORIGINS: string | string[] = process.env.REST_CORS_ORIGINS
+	? process.env.REST_CORS_ORIGINS.split(',').map((o) => o.trim())
+	: REST_AUTH_ENABLED
+		? []
+		: '*';
+
+// ---------------------------------------------------------------------------
+// Authentication
+// ---------------------------------------------------------------------------
+
+type AuthResult = HumanUser | string | null;
+
+// null when the request carries no proxy headers at all
+function authenticateProxy(c: Context): AuthResult {
+	const userId = c.req.header(PROXY_USER_ID_HEADER);
+	const secret = c.req.header(PROXY_SECRET_HEADER);
+	if (!userId && !secret) return null;
+	if (
+		!secret ||
+		!timingSafeEqual(hashSecret(secret), hashSecret(proxySecret))
+	) {
+		return 'Invalid proxy secret';
+	}
+	if (!userId) return `${PROXY_USER_ID_HEADER} is required`;
+	const role = c.req.header(PROXY_USER_ROLE_HEADER) || defaultRole;
+	if (!isRole(role)) return `Unknown role "${role}"`;
+	return {
+		id: userId,
+		name: c.req.header(PROXY_USER_NAME_HEADER) || userId,
+		role,
+	};
+}
+
+// EventSource, <img> and download links cannot send headers, so GET
+// requests may pass the token as ?access_token=
+function requestToken(c: Context): string | null {
+	const match = c.req.header('Authorization')?.match(/^Bearer\s+(.+)$/i);
+	if (match) return match[1].trim();
+	if (c.req.method === 'GET') return c.req.query('access_token') ?? null;
+	return null;
+}
+
+function authenticateToken(c: Context): AuthResult {
+	const token = requestToken(c);
+	if (!token) return null;
+	const hash = hashSecret(token);
+	const match = apiTokens.find((t) => timingSafeEqual(t.hash, hash));
+	return match ? match.user : 'Invalid token';
+}
+
+export function authenticate(): MiddlewareHandler<RestEnv> {
+	return async (c, next) => {
+		if (!REST_AUTH_ENABLED) {
+			c.set('user', ANONYMOUS_USER);
+			return next();
+		}
+		for (const method of authMethods) {
+			const result =
+				method === 'proxy' ? authenticateProxy(c) : authenticateToken(c);
+			if (typeof result === 'string') {
+				return c.json({ error: result }, 401);
+			}
+			if (result) {
+				c.set('user', result);
+				return next();
+			}
+		}
+		c.header('WWW-Authenticate', 'Bearer');
+		return c.json({ error: 'Authentication required' }, 401);
+	};
+}
+
+// ---------------------------------------------------------------------------
+// Authorization
+// ---------------------------------------------------------------------------
+
+export function hasRole(user: HumanUser, role: Role): boolean {
+	return ROLES.indexOf(user.role) >= ROLES.indexOf(role);
+}
+
+export function requireRole(role: Role): MiddlewareHandler<RestEnv> {
+	return async (c, next) => {
+		const user = c.get('user');
+		if (!hasRole(user, role)) {
+			return c.json(
+				{
+					error: `This action needs the ${role} role`,
+					code: 'FORBIDDEN',
+					role: user.role,
+				},
+				403,
+			);
+		}
+		return next();
+	};
+}
+
+// The actor recorded in the event log for a REST / web UI action
+export function userActor(user: HumanUser): Actor {
+	return { id: user.id, type: 'human', name: user.name };
+}
@@ -0,0 +1,151 @@
+import { publishTaskCreated } from './board-events';
+import { nextCronRun, parseCron } from './cron';
+import {
+	createTask,
+	getDb,
+	getDueTaskSchedules,
+	recordTaskEvent,
+	recordTaskScheduleRun,
+	SYSTEM_ACTOR,
+	type TaskRow,
+	type TaskScheduleRow,
+} from './db';
+import { notifyAssignees } from './notifications';
+
+// Creates the tasks of due schedules. Runs missed while the server was down
+// are caught up on start, up to MAX_CATCH_UP_RUNS per schedule; later ones
+// are skipped.
+
+const POLL_INTERVAL_MS = 30_000;
+const MAX_CATCH_UP_RUNS = 10;
+const MINUTE_MS = 60_000;
+
+export interface ScheduleTiming {
+	cron: string | null;
+	intervalMinutes: number | null;
+}
+
+export function scheduleTiming(schedule: TaskScheduleRow): ScheduleTiming {
+	return { cron: schedule.cron, intervalMinutes: schedule.interval_minutes };
+}
+
+// Next run strictly after `after`, or null if the cron never matches again
+export function nextScheduleRun(
+	timing: ScheduleTiming,
+	after: number,
+): number | null {
+	if (timing.cron) return nextCronRun(parseCron(timing.cron), after);
+	return after + (timing.intervalMinutes ?? 0) * MINUTE_MS;
+}
+
+export function previewScheduleRuns(
+	timing: ScheduleTiming,
+	count: number,
+	from = Date.now(),
+): number[] {
+	const runs: number[] = [];
+	let at: number | null = from;
+	while (runs.length < count) {
+		at = nextScheduleRun(timing, at);
+		if (at === null) break;
+		runs.push(at);
+	}
+	return runs;
+}
+
+function createScheduledTask(
+	schedule: TaskScheduleRow,
+	scheduledAt: number,
+	nextRunAt: number | null,
+): TaskRow {
+	const assigneeIds = JSON.parse(schedule.assignee_ids) as string[];
+	const labels = JSON.parse(schedule.labels) as string[];
+	const db = getDb();
+	// The task and the schedule's progress are saved together, so a crash
+	// cannot create the same run twice
+	return db.transaction(() => {
+		const task = createTask(schedule.title, schedule.description, assigneeIds, {
+			reviewQuorum: schedule.review_quorum,
+			priority: schedule.priority,
+			labels,
+			boardId: schedule.board_id,
+		});
+		recordTaskEvent(task.id, 'created', SYSTEM_ACTOR, {
+			to: task.status,
+			payload: {
+				title: task.title,
+				assigneeIds,
+				reviewQuorum: schedule.review_quorum,
+				priority: schedule.priority,
+				labels,
+				boardId: schedule.board_id,
+				scheduleId: schedule.id,
+				scheduledAt,
+			},
+		});
+		recordTaskScheduleRun(schedule.id, {
+			ranAt: scheduledAt,
+			nextRunAt,
+			taskId: task.id,
+		});
+		return task;
+	})();
+}
+
+function runSchedule(schedule: TaskScheduleRow, now: number) {
+	const timing = scheduleTiming(schedule);
+	const runs: number[] = [];
+	let next = schedule.next_run_at;
+	while (next !== null && next <= now && runs.length < MAX_CATCH_UP_RUNS) {
+		runs.push(next);
+		next = nextScheduleRun(timing, next);
+	}
+	// Past the limit, jump over the remaining missed runs instead of stepping
+	// through each of them. Intervals keep their original rhythm; the runs a
+	// cron expression missed are not counted.
+	if (next !== null && next <= now) {
+		let skipped: number | null = null;
+		if (timing.cron) {
+			next = nextScheduleRun(timing, now);
+		} else {
+			const intervalMs = (timing.intervalMinutes ?? 0) * MINUTE_MS;
+			skipped = Math.floor((now - next) / intervalMs) + 1;
+			next += skipped * intervalMs;
+		}
+		console.warn(
+			`[scheduler] Skipped ${skipped ?? 'further'} missed run(s) of schedule ${schedule.id}`,
+		);
+	}
+
+	runs.forEach((scheduledAt, i) => {
+		const task = createScheduledTask(
+			schedule,
+			scheduledAt,
+			runs[i + 1] ?? next,
+		);
+		publishTaskCreated(task.id);
+		notifyAssignees(
+			task.id,
+			JSON.parse(schedule.assignee_ids),
+			task.title,
+			task.description,
+		).catch((error) => {
+			console.warn('Failed to notify assignees for task', task.id, error);
+		});
+	});
+}
+
+export function runDueSchedules(now = Date.now()) {
+	for (const schedule of getDueTaskSchedules(now)) {
+		try {
+			runSchedule(schedule, now);
+		} catch (err) {
+			console.warn(`[scheduler] Failed to run schedule ${schedule.id}:`, err);
+		}
+	}
+}
+
+export function startScheduler() {
+	runDueSchedules();
+	setInterval(() => runDueSchedules(), POLL_INTERVAL_MS);
+}
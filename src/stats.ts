@@ -0,0 +1,483 @@
+import {
+	countByStatus,
+	getEventsOfKinds,
+	getStatusEnteredAt,
+	getUnarchivedAssignments,
+	listTasks,
+	type TaskEventRow,
+	type TaskStatus,
+} from './db';
+import { TASK_STATUSES } from './workflow';
+
+// Board statistics, derived from the event log. Every measure follows one
+// assignment (an agent on a task):
+//  - time to start: assigned -> first in_progress (or first result/question)
+//  - cycle time: first start -> approval
+//  - review wait: result submitted (or review requested) -> approval/rejection
+// A sample counts in the window its closing event falls in. Deleted tasks
+// take their events with them and drop out of the statistics.
+
+export type StatsWindow = '24h' | '7d' | '30d' | '90d' | 'all';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const STATS_WINDOWS: Record<StatsWindow, number | null> = {
+	'24h': DAY_MS,
+	'7d': 7 * DAY_MS,
+	'30d': 30 * DAY_MS,
+	'90d': 90 * DAY_MS,
+	all: null,
+};
+
+export interface StatsRange {
+	since: number | null;
+	until: number;
+}
+
+export interface DurationSummary {
+	count: number;
+	// Milliseconds, null without samples
+	avg: number | null;
+	median: number | null;
+	p90: number | null;
+	max: number | null;
+}
+
+interface AgentSamples {
+	approvals: number;
+	rejections: number;
+	timeToStart: number[];
+	cycleTime: number[];
+	reviewWait: number[];
+}
+
+// Where one assignment stands while the event log is replayed
+interface AssignmentTimeline {
+	assignedAt: number;
+	startedAt: number | null;
+	submittedAt: number | null;
+}
+
+const STATS_EVENT_KINDS = [
+	'created',
+	'updated',
+	'claimed',
+	'status_changed',
+	'question_asked',
+	'result_submitted',
+	'approved',
+	'rejected',
+] as const;
+
+export function statsRange(window: StatsWindow, now = Date.now()): StatsRange {
+	const length = STATS_WINDOWS[window];
+	return { since: length === null ? null : now - length, until: now };
+}
+
+function percentile(sorted: number[], p: number): number {
+	const index = Math.ceil((p / 100) * sorted.length) - 1;
+	return sorted[Math.max(0, index)];
+}
+
+export function summarizeDurations(samples: number[]): DurationSummary {
+	if (samples.length === 0) {
+		return { count: 0, avg: null, median: null, p90: null, max: null };
+	}
+	const sorted = [...samples].sort((a, b) => a - b);
+	const total = sorted.reduce((sum, v) => sum + v, 0);
+	return {
+		count: sorted.length,
+		avg: Math.round(total / sorted.length),
+		median: percentile(sorted, 50),
+		p90: percentile(sorted, 90),
+		max: sorted[sorted.length - 1],
+	};
+}
+
+function rejectionRate(samples: AgentSamples): number | null {
+	const reviewed = samples.approvals + samples.rejections;
+	return reviewed === 0 ? null : samples.rejections / reviewed;
+}
+
+function stringList(value: unknown): string[] {
+	return Array.isArray(value)
+		? value.filter((v): v is string => typeof v === 'string')
+		: [];
+}
+
+function payloadAgentId(event: TaskEventRow): string | null {
+	const agentId = event.payload?.agentId;
+	return typeof agentId === 'string' ? agentId : null;
+}
+
+function payloadAssigneeStatus(event: TaskEventRow): TaskStatus | null {
+	const change = event.payload?.assigneeStatus as { to?: unknown } | undefined;
+	return typeof change?.to === 'string' ? (change.to as TaskStatus) : null;
+}
+
+function emptySamples(): AgentSamples {
+	return {
+		approvals: 0,
+		rejections: 0,
+		timeToStart: [],
+		cycleTime: [],
+		reviewWait: [],
+	};
+}
+
+// Replays the event log and collects the samples closed inside the range
+function collectSamples(range: StatsRange): Map<string, AgentSamples> {
+	const timelines = new Map<string, AssignmentTimeline>();
+	const byAgent = new Map<string, AgentSamples>();
+	const inRange = (at: number) =>
+		(range.since === null || at >= range.since) && at <= range.until;
+	const samplesOf = (agentId: string) => {
+		let samples = byAgent.get(agentId);
+		if (!samples) {
+			samples = emptySamples();
+			byAgent.set(agentId, samples);
+		}
+		return samples;
+	};
+	const key = (taskId: string, agentId: string) => `${taskId}\u0000${agentId}`;
+
+	const assign = (taskId: string, agentId: string, at: number) => {
+		timelines.set(key(taskId, agentId), {
+			assignedAt: at,
+			startedAt: null,
+			submittedAt: null,
+		});
+	};
+	const start = (taskId: string, agentId: string, at: number) => {
+		const timeline = timelines.get(key(taskId, agentId));
+		if (!timeline || timeline.startedAt !== null) return;
+		timeline.startedAt = at;
+		if (inRange(at)) {
+			samplesOf(agentId).timeToStart.push(at - timeline.assignedAt);
+		}
+	};
+	const submit = (taskId: string, agentId: string, at: number) => {
+		const timeline = timelines.get(key(taskId, agentId));
+		if (timeline && timeline.submittedAt === null) timeline.submittedAt = at;
+	};
+	const review = (
+		taskId: string,
+		agentId: string,
+		at: number,
+		approved: boolean,
+	) => {
+		const timeline = timelines.get(key(taskId, agentId));
+		if (!timeline) return;
+		if (inRange(at)) {
+			const samples = samplesOf(agentId);
+			if (approved) samples.approvals++;
+			else samples.rejections++;
+			if (timeline.submittedAt !== null) {
+				samples.reviewWait.push(at - timeline.submittedAt);
+			}
+			if (approved && timeline.startedAt !== null) {
+				samples.cycleTime.push(at - timeline.startedAt);
+			}
+		}
+		// A rejected assignment goes back to work and is reviewed again
+		timeline.submittedAt = null;
+	};
+
+	for (const event of getEventsOfKinds([...STATS_EVENT_KINDS])) {
+		const taskId = event.task_id;
+		const at = event.created_at;
+		switch (event.kind) {
+			case 'created':
+				for (const agentId of stringList(event.payload?.assigneeIds)) {
+					assign(taskId, agentId, at);
+				}
+				break;
+			case 'updated': {
+				const change = (
+					event.payload?.changes as
+						| { assignees?: { from?: unknown; to?: unknown } }
+						| undefined
+				)?.assignees;
+				if (!change) break;
+				const before = stringList(change.from);
+				const after = stringList(change.to);
+				for (const agentId of after) {
+					if (!before.includes(agentId)) assign(taskId, agentId, at);
+				}
+				for (const agentId of before) {
+					if (!after.includes(agentId)) timelines.delete(key(taskId, agentId));
+				}
+				break;
+			}
+			// A pool task's claimer is assigned when it claims it
+			case 'claimed': {
+				const agentId = payloadAgentId(event);
+				if (agentId) assign(taskId, agentId, at);
+				break;
+			}
+			case 'status_changed':
+			case 'question_asked':
+			case 'result_submitted': {
+				const agentId = payloadAgentId(event);
+				if (!agentId) break;
+				start(taskId, agentId, at);
+				if (
+					event.kind === 'result_submitted' ||
+					payloadAssigneeStatus(event) === 'review'
+				) {
+					submit(taskId, agentId, at);
+				}
+				break;
+			}
+			case 'approved':
+			case 'rejected':
+				for (const agentId of stringList(event.payload?.agentIds)) {
+					review(taskId, agentId, at, event.kind === 'approved');
+				}
+				break;
+		}
+	}
+	return byAgent;
+}
+
+// Current load per agent: assignments by assignee status. Archived tasks
+// are left out, like in the status snapshot.
+function openAssignmentsByAgent(): Map<string, Record<TaskStatus, number>> {
+	const byAgent = new Map<string, Record<TaskStatus, number>>();
+	for (const a of getUnarchivedAssignments()) {
+		let counts = byAgent.get(a.agent_id);
+		if (!counts) {
+			counts = Object.fromEntries(TASK_STATUSES.map((s) => [s, 0])) as Record<
+				TaskStatus,
+				number
+			>;
+			byAgent.set(a.agent_id, counts);
+		}
+		counts[a.status]++;
+	}
+	return byAgent;
+}
+
+// How many tasks are in each status right now, and for how long
+function statusSnapshot(now: number) {
+	const enteredAt = getStatusEnteredAt();
+	const ages = Object.fromEntries(
+		TASK_STATUSES.map((s) => [s, [] as number[]]),
+	) as Record<TaskStatus, number[]>;
+	for (const task of listTasks()) {
+		ages[task.status].push(now - (enteredAt.get(task.id) ?? task.created_at));
+	}
+	return Object.fromEntries(
+		TASK_STATUSES.map((s) => {
+			const list = ages[s];
+			return [
+				s,
+				{
+					count: list.length,
+					oldestAge: list.length ? Math.max(...list) : null,
+					avgAge: list.length
+						? Math.round(list.reduce((sum, v) => sum + v, 0) / list.length)
+						: null,
+				},
+			];
+		}),
+	) as Record<
+		TaskStatus,
+		{ count: number; oldestAge: number | null; avgAge: number | null }
+	>;
+}
+
+function describeSamples(samples: AgentSamples, range: StatsRange) {
+	const days =
+		range.since === null ? null : (range.until - range.since) / DAY_MS;
+	return {
+		approvals: samples.approvals,
+		rejections: samples.rejections,
+		throughputPerDay:
+			days === null ? null : Math.round((samples.approvals / days) * 100) / 100,
+		rejectionRate: rejectionRate(samples),
+		timeToStart: summarizeDurations(samples.timeToStart),
+		cycleTime: summarizeDurations(samples.cycleTime),
+		reviewWait: summarizeDurations(samples.reviewWait),
+	};
+}
+
+export function buildStats(range: StatsRange) {
+	const samples = collectSamples(range);
+	const open = openAssignmentsByAgent();
+	const agentIds = [...new Set([...samples.keys(), ...open.keys()])].sort();
+
+	const total = emptySamples();
+	for (const s of samples.values()) {
+		total.approvals += s.approvals;
+		total.rejections += s.rejections;
+		total.timeToStart.push(...s.timeToStart);
+		total.cycleTime.push(...s.cycleTime);
+		total.reviewWait.push(...s.reviewWait);
+	}
+
+	return {
+		range,
+		totals: describeSamples(total, range),
+		agents: agentIds.map((agentId) => ({
+			agentId,
+			...describeSamples(samples.get(agentId) ?? emptySamples(), range),
+			assignments: open.get(agentId) ?? null,
+		})),
+		statuses: statusSnapshot(range.until),
+		overdue: listTasks({ overdue: true }).length,
+	};
+}
+
+// ---------------------------------------------------------------------------
+// Prometheus text exposition
+// ---------------------------------------------------------------------------
+
+function escapeLabel(value: string): string {
+	return value
+		.replace(/\\/g, '\\\\')
+		.replace(/\n/g, '\\n')
+		.replace(/"/g, '\\"');
+}
+
+function labels(values: Record<string, string>): string {
+	const parts = Object.entries(values).map(
+		([k, v]) => `${k}="${escapeLabel(v)}"`,
+	);
+	return parts.length ? `{${parts.join(',')}}` : '';
+}
+
+type MetricSample = [Record<string, string>, number];
+
+function writeMetric(
+	lines: string[],
+	name: string,
+	type: 'gauge' | 'counter',
+	help: string,
+	samples: MetricSample[],
+) {
+	lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+	for (const [labelValues, value] of samples) {
+		lines.push(`${name}${labels(labelValues)} ${value}`);
+	}
+}
+
+// Durations as a summary without quantiles: _sum and _count, in seconds
+function writeDurations(
+	lines: string[],
+	name: string,
+	help: string,
+	byAgent: [string, number[]][],
+) {
+	lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} summary`);
+	for (const [agentId, samples] of byAgent) {
+		const agent = labels({ agent_id: agentId });
+		const sum = samples.reduce((total, v) => total + v, 0) / 1000;
+		lines.push(
+			`${name}_sum${agent} ${sum}`,
+			`${name}_count${agent} ${samples.length}`,
+		);
+	}
+}
+
+// Totals since the start of the event log, so Prometheus can take rates
+export function renderMetrics(now = Date.now()): string {
+	const samples = [...collectSamples({ since: null, until: now }).entries()];
+	const statuses = statusSnapshot(now);
+	const open = openAssignmentsByAgent();
+	const lines: string[] = [];
+
+	writeMetric(
+		lines,
+		'nanofleet_tasks',
+		'gauge',
+		'Tasks by status',
+		TASK_STATUSES.map((s) => [{ status: s }, statuses[s].count]),
+	);
+	writeMetric(
+		lines,
+		'nanofleet_tasks_oldest_age_seconds',
+		'gauge',
+		'Time the oldest task has spent in its current status',
+		TASK_STATUSES.map((s) => [
+			{ status: s },
+			(statuses[s].oldestAge ?? 0) / 1000,
+		]),
+	);
+	writeMetric(
+		lines,
+		'nanofleet_tasks_overdue',
+		'gauge',
+		'Open tasks past their due date',
+		[[{}, listTasks({ overdue: true }).length]],
+	);
+	writeMetric(
+		lines,
+		'nanofleet_agent_assignments',
+		'gauge',
+		'Assignments by agent and assignee status',
+		[...open.entries()].flatMap(([agentId, counts]) =>
+			TASK_STATUSES.map(
+				(s) =>
+					[{ agent_id: agentId, status: s }, counts[s]] as [
+						Record<string, string>,
+						number,
+					],
+			),
+		),
+	);
+	writeMetric(
+		lines,
+		'nanofleet_agent_approvals_total',
+		'counter',
+		'Assignments approved',
+		samples.map(([agentId, s]) => [{ agent_id: agentId }, s.approvals]),
+	);
+	writeMetric(
+		lines,
+		'nanofleet_agent_rejections_total',
+		'counter',
+		'Assignments rejected',
+		samples.map(([agentId, s]) => [{ agent_id: agentId }, s.rejections]),
+	);
+	writeDurations(
+		lines,
+		'nanofleet_agent_time_to_start_seconds',
+		'Time from assignment to first in_progress',
+		samples.map(([agentId, s]) => [agentId, s.timeToStart]),
+	);
+	writeDurations(
+		lines,
+		'nanofleet_agent_cycle_time_seconds',
+		'Time from first in_progress to approval',
+		samples.map(([agentId, s]) => [agentId, s.cycleTime]),
+	);
+	writeDurations(
+		lines,
+		'nanofleet_agent_review_wait_seconds',
+		'Time from submission to approval or rejection',
+		samples.map(([agentId, s]) => [agentId, s.reviewWait]),
+	);
+	writeMetric(
+		lines,
+		'nanofleet_notification_outbox',
+		'gauge',
+		'Agent notifications by delivery status',
+		Object.entries(countByStatus('notification_outbox')).map(([s, n]) => [
+			{ status: s },
+			n,
+		]),
+	);
+	writeMetric(
+		lines,
+		'nanofleet_webhook_deliveries',
+		'gauge',
+		'Webhook deliveries by status',
+		Object.entries(countByStatus('webhook_deliveries')).map(([s, n]) => [
+			{ status: s },
+			n,
+		]),
+	);
+	return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,113 @@
+import {
+	getAssignmentsByTask,
+	getCapabilitiesByTask,
+	getDependencyMaps,
+	getLabelsByTask,
+	getLatestResult,
+	getLatestResultByTask,
+	getLatestResultPerAgent,
+	getSubtaskTree,
+	getTask,
+	getTaskArtifacts,
+	getTaskAssignments,
+	getTaskBlockers,
+	getTaskCapabilities,
+	getTaskComments,
+	getTaskDependents,
+	getTaskEvents,
+	getTaskLabels,
+	getTaskNotifications,
+	getTaskResults,
+	listTasks,
+	type TaskArtifactRow,
+	type TaskAssigneeRow,
+	type TaskFilter,
+	type TaskRow,
+	type TaskStatus,
+} from './db';
+
+function describeAssignments(rows: TaskAssigneeRow[]) {
+	return {
+		assignees: rows.map((a) => a.agent_id),
+		assigneeStatus: Object.fromEntries(
+			rows.map((a) => [a.agent_id, a.status]),
+		) as Record<string, TaskStatus>,
+	};
+}
+
+// ---------------------------------------------------------------------------
+// Board cards — one query per table, not per task
+// ---------------------------------------------------------------------------
+
+export function buildTaskList(filter: TaskFilter = {}) {
+	const tasks = listTasks(filter);
+	const assignments = getAssignmentsByTask();
+	const labels = getLabelsByTask();
+	const capabilities = getCapabilitiesByTask();
+	const lastResults = getLatestResultByTask();
+	const { blockedBy, dependents } = getDependencyMaps();
+	return tasks.map((task) => ({
+		...task,
+		...describeAssignments(assignments.get(task.id) ?? []),
+		labels: labels.get(task.id) ?? [],
+		capabilities: capabilities.get(task.id) ?? [],
+		lastResult: lastResults.get(task.id) ?? null,
+		blockedBy: blockedBy.get(task.id) ?? [],
+		dependents: dependents.get(task.id) ?? [],
+	}));
+}
+
+export type TaskSummary = ReturnType<typeof buildTaskList>[number];
+
+// Same shape as a buildTaskList() entry, for a single task
+export function buildTaskSummary(task: TaskRow): TaskSummary {
+	return {
+		...task,
+		...describeAssignments(getTaskAssignments(task.id)),
+		labels: getTaskLabels(task.id),
+		capabilities: getTaskCapabilities(task.id),
+		lastResult: getLatestResult(task.id),
+		blockedBy: getTaskBlockers(task.id),
+		dependents: getTaskDependents(task.id),
+	};
+}
+
+// ---------------------------------------------------------------------------
+// Task detail
+// ---------------------------------------------------------------------------
+
+export function describeArtifact(row: TaskArtifactRow) {
+	return {
+		...row,
+		url: `/tasks/${row.task_id}/artifacts/${row.id}`,
+	};
+}
+
+export function buildTaskDetail(taskId: string) {
+	const task = getTask(taskId);
+	if (!task) return null;
+	const comments = getTaskComments(taskId);
+	const results = getTaskResults(taskId);
+	const artifacts = getTaskArtifacts(taskId).map(describeArtifact);
+	const latestResults = getLatestResultPerAgent(taskId);
+	const blockedBy = getTaskBlockers(taskId);
+	const dependents = getTaskDependents(taskId);
+	const subtasks = getSubtaskTree(taskId);
+	const events = getTaskEvents(taskId);
+	const notifications = getTaskNotifications(taskId);
+	return {
+		...task,
+		...describeAssignments(getTaskAssignments(taskId)),
+		labels: getTaskLabels(taskId),
+		capabilities: getTaskCapabilities(taskId),
+		comments,
+		results,
+		artifacts,
+		latestResults,
+		blockedBy,
+		dependents,
+		subtasks,
+		events,
+		notifications,
+	};
+}
@@ -0,0 +1,22 @@
+// {{name}} placeholders in task template titles and descriptions. Names start
+// with a letter or underscore and may contain letters, digits, _ . and -.
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+// Variable names used by the given texts, in order of first appearance
+export function templateVariables(...texts: (string | null)[]): string[] {
+	const names = new Set<string>();
+	for (const text of texts) {
+		for (const match of (text ?? '').matchAll(PLACEHOLDER)) names.add(match[1]);
+	}
+	return [...names];
+}
+
+// Variables without a value are left as they are
+export function renderTemplate(
+	text: string,
+	variables: Record<string, string>,
+): string {
+	return text.replace(PLACEHOLDER, (placeholder, name: string) =>
+		Object.hasOwn(variables, name) ? variables[name] : placeholder,
+	);
+}
@@ -0,0 +1,163 @@
+import { publishTaskUpdated } from './board-events';
+import {
+	addTaskAssignees,
+	getStaleCandidates,
+	getTaskAssignees,
+	getTaskAssignments,
+	markStaleFlagged,
+	markStaleReminded,
+	recordTaskEvent,
+	removeTaskAssignee,
+	type StaleCandidate,
+	SYSTEM_ACTOR,
+	type TaskStatus,
+} from './db';
+import {
+	notifyAssignees,
+	notifyStale,
+	notifyUnassigned,
+} from './notifications';
+import { syncTaskStatus } from './workflow';
+
+// Finds tasks nobody has touched for too long. A task is stale once its last
+// activity (status change, comment, result, question, new assignee) is older
+// than the threshold for its status. Its idle assignees are reminded first;
+// if nothing happens within WATCHDOG_ESCALATE_MINUTES, the task is flagged on
+// the board and, with WATCHDOG_REASSIGN_TO set, handed to that agent. Any
+// activity clears both marks.
+
+const WATCHDOG_CHECK_INTERVAL_MS = 60_000;
+const MINUTE_MS = 60_000;
+
+// needs_input and review wait on a human, not on the agents
+type WatchedStatus = 'todo' | 'in_progress';
+const WATCHED_STATUSES: WatchedStatus[] = ['todo', 'in_progress'];
+const DEFAULT_STALE_MINUTES: Record<WatchedStatus, number> = {
+	todo: 120,
+	in_progress: 240,
+};
+
+// "todo=120,in_progress=240"; 0 stops watching a status
+function parseStaleMinutes(value: string): Record<WatchedStatus, number> {
+	const minutes = { ...DEFAULT_STALE_MINUTES };
+	for (const entry of value.split(',').map((e) => e.trim())) {
+		if (!entry) continue;
+		const [status, amount] = entry.split('=').map((p) => p.trim());
+		const parsed = Number(amount);
+		if (
+			!WATCHED_STATUSES.includes(status as WatchedStatus) ||
+			!Number.isFinite(parsed) ||
+			parsed < 0
+		) {
+			throw new Error(
+				`WATCHDOG_STALE_MINUTES entries must look like "status=minutes" with a status among ${WATCHED_STATUSES}`,
+			);
+		}
+		minutes[status as WatchedStatus] = parsed;
+	}
+	return minutes;
+}
+
+const staleMinutes = parseStaleMinutes(
+	process.env.WATCHDOG_STALE_MINUTES ?? '',
+);
+
+const escalateMinutes = Number(process.env.WATCHDOG_ESCALATE_MINUTES ?? 60);
+if (!Number.isFinite(escalateMinutes) || escalateMinutes < 0) {
+	throw new Error('WATCHDOG_ESCALATE_MINUTES must be a number of minutes');
+}
+
+const reassignTo = process.env.WATCHDOG_REASSIGN_TO?.trim() || null;
+
+// Assignees the task is waiting on
+function idleAssignees(taskId: string): string[] {
+	return getTaskAssignments(taskId)
+		.filter((a) => a.status === 'todo' || a.status === 'in_progress')
+		.map((a) => a.agent_id);
+}
+
+function remind(task: StaleCandidate, agentIds: string[], now: number) {
+	markStaleReminded(task.id, now);
+	recordTaskEvent(task.id, 'stale_reminder', SYSTEM_ACTOR, {
+		payload: { agentIds, lastActivityAt: task.last_activity_at },
+	});
+	publishTaskUpdated(task.id);
+	notifyStale(task, agentIds).catch((error) => {
+		console.warn('Failed to send stale reminder for task', task.id, error);
+	});
+}
+
+// The reassignment is recorded like any other assignee change, which clears
+// the marks, so the flag is set afterwards
+function escalate(task: StaleCandidate, agentIds: string[], now: number) {
+	let reassigned = false;
+	if (reassignTo && !getTaskAssignees(task.id).includes(reassignTo)) {
+		const previous = getTaskAssignees(task.id);
+		addTaskAssignees(task.id, [reassignTo]);
+		for (const agentId of agentIds) removeTaskAssignee(task.id, agentId);
+		const taskStatus = syncTaskStatus(task.id);
+		const statusChanged = taskStatus.to !== taskStatus.from;
+		recordTaskEvent(task.id, 'updated', SYSTEM_ACTOR, {
+			from: statusChanged ? taskStatus.from : null,
+			to: statusChanged ? taskStatus.to : null,
+			payload: {
+				changes: {
+					assignees: { from: previous, to: getTaskAssignees(task.id) },
+				},
+			},
+		});
+		reassigned = true;
+	}
+
+	markStaleFlagged(task.id, now);
+	recordTaskEvent(task.id, 'escalated', SYSTEM_ACTOR, {
+		payload: {
+			agentIds,
+			lastActivityAt: task.last_activity_at,
+			reassignedTo: reassigned ? reassignTo : null,
+		},
+	});
+	publishTaskUpdated(task.id);
+
+	if (reassigned && reassignTo) {
+		notifyUnassigned(task.id, agentIds, task.title).catch((error) => {
+			console.warn(
+				'Failed to notify unassigned agents for task',
+				task.id,
+				error,
+			);
+		});
+		notifyAssignees(task.id, [reassignTo], task.title, task.description).catch(
+			(error) => {
+				console.warn('Failed to notify assignees for task', task.id, error);
+			},
+		);
+	}
+}
+
+export function checkStaleTasks(now = Date.now()) {
+	const watched = WATCHED_STATUSES.filter((s) => staleMinutes[s] > 0);
+	if (watched.length === 0) return;
+
+	for (const task of getStaleCandidates(watched as TaskStatus[])) {
+		const threshold = staleMinutes[task.status as WatchedStatus] * MINUTE_MS;
+		if (now - task.last_activity_at < threshold) continue;
+
+		const agentIds = idleAssignees(task.id);
+		if (agentIds.length === 0) continue;
+
+		if (task.stale_reminded_at === null) {
+			remind(task, agentIds, now);
+		} else if (
+			task.stale_flagged_at === null &&
+			now - task.stale_reminded_at >= escalateMinutes * MINUTE_MS
+		) {
+			escalate(task, agentIds, now);
+		}
+	}
+}
+
+export function startWatchdog() {
+	checkStaleTasks();
+	setInterval(() => checkStaleTasks(), WATCHDOG_CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,114 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import {
+	type DueWebhookDelivery,
+	getDueWebhookDeliveries,
+	recordWebhookAttempt,
+} from './db';
+import { backoffDelay, FETCH_TIMEOUT_MS } from './notifications';
+
+// Sends queued webhook deliveries. The queue lives in webhook_deliveries, so
+// retries survive restarts; a delivery interrupted by a crash is sent again
+// (at-least-once), receivers can dedupe on the X-NanoFleet-Delivery header.
+
+const POLL_INTERVAL_MS = 1000;
+const BATCH_SIZE = 20;
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 10_000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const MAX_ERROR_LENGTH = 500;
+
+export function generateWebhookSecret(): string {
+	return randomBytes(32).toString('hex');
+}
+
+// Receivers recompute HMAC-SHA256(secret, "<timestamp>.<body>") and compare
+// it to the X-NanoFleet-Signature header
+export function signWebhookPayload(
+	secret: string,
+	timestamp: number,
+	body: string,
+): string {
+	const digest = createHmac('sha256', secret)
+		.update(`${timestamp}.${body}`)
+		.digest('hex');
+	return `sha256=${digest}`;
+}
+
+async function deliver(delivery: DueWebhookDelivery): Promise<void> {
+	const timestamp = Date.now();
+	let responseStatus: number | null = null;
+	let error: string | null = null;
+	try {
+		const res = await fetch(delivery.url, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				'User-Agent': 'nanofleet-tasks-webhooks',
+				'X-NanoFleet-Event': delivery.event_type,
+				'X-NanoFleet-Delivery': delivery.id,
+				'X-NanoFleet-Timestamp': String(timestamp),
+				'X-NanoFleet-Signature': signWebhookPayload(
+					delivery.secret,
+					timestamp,
+					delivery.payload,
+				),
+			},
+			body: delivery.payload,
+			signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+		});
+		responseStatus = res.status;
+		if (!res.ok) error = `HTTP ${res.status}`;
+	} catch (err) {
+		error = err instanceof Error ? err.message : String(err);
+	}
+
+	const attempts = delivery.attempts + 1;
+	if (!error) {
+		recordWebhookAttempt(delivery.id, {
+			status: 'delivered',
+			nextAttemptAt: null,
+			responseStatus,
+			error: null,
+		});
+	} else if (attempts >= MAX_ATTEMPTS) {
+		recordWebhookAttempt(delivery.id, {
+			status: 'failed',
+			nextAttemptAt: null,
+			responseStatus,
+			error: error.slice(0, MAX_ERROR_LENGTH),
+		});
+		console.warn(
+			`[webhooks] Giving up on delivery ${delivery.id} after ${attempts} attempts: ${error}`,
+		);
+	} else {
+		recordWebhookAttempt(delivery.id, {
+			status: 'pending',
+			nextAttemptAt:
+				Date.now() +
+				backoffDelay(attempts, BASE_RETRY_DELAY_MS, MAX_RETRY_DELAY_MS),
+			responseStatus,
+			error: error.slice(0, MAX_ERROR_LENGTH),
+		});
+	}
+}
+
+let processing = false;
+
+export async function processWebhookDeliveries(): Promise<void> {
+	if (processing) return;
+	processing = true;
+	try {
+		const due = getDueWebhookDeliveries(Date.now(), BATCH_SIZE);
+		await Promise.all(due.map(deliver));
+	} catch (err) {
+		console.warn('[webhooks] Failed to process deliveries:', err);
+	} finally {
+		processing = false;
+	}
+}
+
+export function startWebhookDeliveries() {
+	setInterval(() => {
+		processWebhookDeliveries();
+	}, POLL_INTERVAL_MS);
+}
@@ -0,0 +1,274 @@
+import {
+	type Actor,
+	type ActorType,
+	type BoardColumn,
+	getOpenBlockers,
+	getOpenSubtasks,
+	getTask,
+	getTaskAssignment,
+	getTaskAssignments,
+	type TaskRow,
+	type TaskStatus,
+	updateTaskStatus,
+} from './db';
+
+// Single source of truth for how a task may move between statuses and who
+// may move it. Both the REST API and the MCP tools go through checkTransition().
+//
+// Transitions apply to one assignment (an agent's row in task_assignees):
+// agents move their own, humans move the one they review. The task status
+// is then derived from all assignments by syncTaskStatus().
+
+export type WorkflowAction =
+	| 'start'
+	| 'request_review'
+	| 'submit_result'
+	| 'ask_human'
+	| 'answer'
+	| 'approve'
+	| 'reject';
+
+export interface Transition {
+	from: TaskStatus[];
+	to: TaskStatus;
+	actors: ActorType[];
+	description: string;
+}
+
+export const TASK_STATUSES: TaskStatus[] = [
+	'todo',
+	'in_progress',
+	'needs_input',
+	'review',
+	'done',
+];
+
+export const TRANSITIONS: Record<WorkflowAction, Transition> = {
+	start: {
+		from: ['todo'],
+		to: 'in_progress',
+		actors: ['agent'],
+		description: 'An assignee starts working. Not allowed while blocked.',
+	},
+	request_review: {
+		from: ['in_progress'],
+		to: 'review',
+		actors: ['agent'],
+		description:
+			'An assignee asks for review without a result. Not allowed while subtasks are open.',
+	},
+	submit_result: {
+		from: ['todo', 'in_progress'],
+		to: 'review',
+		actors: ['agent'],
+		description:
+			'An assignee submits a result. Not allowed while subtasks are open, nor before starting while blocked.',
+	},
+	ask_human: {
+		from: ['todo', 'in_progress'],
+		to: 'needs_input',
+		actors: ['agent'],
+		description: 'An assignee asks a question and waits for a human answer.',
+	},
+	answer: {
+		from: ['needs_input'],
+		to: 'in_progress',
+		actors: ['human'],
+		description:
+			"A human answers one assignee's question, or every open question when no agent is given.",
+	},
+	approve: {
+		from: ['review'],
+		to: 'done',
+		actors: ['human'],
+		description:
+			"A human approves one assignee's submitted work, or every submission when no agent is given.",
+	},
+	reject: {
+		from: ['review'],
+		to: 'in_progress',
+		actors: ['human'],
+		description:
+			"A human sends one assignee's work back with feedback, or every submission when no agent is given.",
+	},
+};
+
+export type WorkflowErrorCode =
+	| 'INVALID_TRANSITION'
+	| 'ACTOR_NOT_ALLOWED'
+	| 'NOT_ASSIGNED'
+	| 'BLOCKED'
+	| 'SUBTASKS_OPEN'
+	| 'ARCHIVED';
+
+export const WORKFLOW_ERRORS: Record<WorkflowErrorCode, string> = {
+	INVALID_TRANSITION: 'The action is not allowed from the current status',
+	ACTOR_NOT_ALLOWED: 'This kind of actor cannot perform the action',
+	NOT_ASSIGNED: 'Only an assignee of the task can perform the action',
+	BLOCKED: 'The task is blocked by unfinished tasks',
+	SUBTASKS_OPEN: 'All subtasks must be done first',
+	ARCHIVED: 'The task is archived; unarchive it first',
+};
+
+export type TransitionCheck =
+	| { ok: true; from: TaskStatus; to: TaskStatus; agentId: string | null }
+	| {
+			ok: false;
+			code: WorkflowErrorCode;
+			error: string;
+			details?: Record<string, unknown>;
+	  };
+
+function fail(
+	code: WorkflowErrorCode,
+	details?: Record<string, unknown>,
+): TransitionCheck {
+	return { ok: false, code, error: WORKFLOW_ERRORS[code], details };
+}
+
+// Agents act on their own assignment. Humans act on the assignment of
+// `agentId`, or on the task as a whole when no agent is given.
+export function checkTransition(
+	task: TaskRow,
+	action: WorkflowAction,
+	actor: Actor,
+	agentId?: string,
+): TransitionCheck {
+	const transition = TRANSITIONS[action];
+
+	// Archived tasks are hidden from everyone, so nobody works on them
+	if (task.archived_at !== null) return fail('ARCHIVED', { action });
+
+	if (!transition.actors.includes(actor.type)) {
+		return fail('ACTOR_NOT_ALLOWED', { action, actorType: actor.type });
+	}
+
+	const subjectId = actor.type === 'agent' ? actor.id : (agentId ?? null);
+	let current = task.status;
+	if (subjectId) {
+		const assignment = getTaskAssignment(task.id, subjectId);
+		if (!assignment) return fail('NOT_ASSIGNED', { agentId: subjectId });
+		// Once the task is done, individual assignments are frozen
+		current = task.status === 'done' ? 'done' : assignment.status;
+	}
+
+	if (!transition.from.includes(current)) {
+		return fail('INVALID_TRANSITION', {
+			action,
+			status: current,
+			allowedFrom: transition.from,
+		});
+	}
+
+	// Submitting straight from todo would skip the dependency gate of start
+	if (
+		action === 'start' ||
+		(action === 'submit_result' && current === 'todo')
+	) {
+		const openBlockers = getOpenBlockers(task.id);
+		if (openBlockers.length > 0) return fail('BLOCKED', { openBlockers });
+	}
+	if (action === 'request_review' || action === 'submit_result') {
+		const openSubtasks = getOpenSubtasks(task.id);
+		if (openSubtasks.length > 0) return fail('SUBTASKS_OPEN', { openSubtasks });
+	}
+
+	return { ok: true, from: current, to: transition.to, agentId: subjectId };
+}
+
+// ---------------------------------------------------------------------------
+// Task status derived from assignments
+// ---------------------------------------------------------------------------
+
+// The task reaches review once `quorum` assignees (all when null) have
+// submitted, and done once that many have been approved. Until then, it
+// needs input while any assignee waits for an answer.
+export function deriveTaskStatus(
+	assignmentStatuses: TaskStatus[],
+	quorum: number | null,
+	current: TaskStatus,
+): TaskStatus {
+	const total = assignmentStatuses.length;
+	if (total === 0) return current;
+
+	const needed = Math.min(quorum ?? total, total);
+	const approved = assignmentStatuses.filter((s) => s === 'done').length;
+	const submitted = assignmentStatuses.filter(
+		(s) => s === 'review' || s === 'done',
+	).length;
+
+	if (approved >= needed) return 'done';
+	if (submitted >= needed) return 'review';
+	if (assignmentStatuses.includes('needs_input')) return 'needs_input';
+	if (assignmentStatuses.some((s) => s !== 'todo')) return 'in_progress';
+	return 'todo';
+}
+
+export function syncTaskStatus(taskId: string): {
+	from: TaskStatus;
+	to: TaskStatus;
+} {
+	const task = getTask(taskId);
+	if (!task) throw new Error(`Task ${taskId} not found`);
+
+	const to = deriveTaskStatus(
+		getTaskAssignments(taskId).map((a) => a.status),
+		task.review_quorum,
+		task.status,
+	);
+	if (to !== task.status) updateTaskStatus(taskId, to);
+	return { from: task.status, to };
+}
+
+// ---------------------------------------------------------------------------
+// Board columns
+// ---------------------------------------------------------------------------
+
+const MAX_COLUMN_NAME_LENGTH = 50;
+
+// Boards lay the workflow out in their own columns: every status must land in
+// exactly one column. Returns an error message instead when it does not.
+export function parseBoardColumns(value: unknown): BoardColumn[] | string {
+	const error = `columns must be a non-empty array of { name, statuses[] }, each status among ${TASK_STATUSES} in exactly one column`;
+	if (!Array.isArray(value) || value.length === 0) return error;
+	const columns: BoardColumn[] = [];
+	const seen = new Set<TaskStatus>();
+	for (const column of value as { name?: unknown; statuses?: unknown }[]) {
+		if (
+			typeof column !== 'object' ||
+			column === null ||
+			typeof column.name !== 'string' ||
+			!column.name.trim() ||
+			column.name.trim().length > MAX_COLUMN_NAME_LENGTH ||
+			!Array.isArray(column.statuses) ||
+			column.statuses.length === 0
+		) {
+			return error;
+		}
+		for (const status of column.statuses) {
+			if (!TASK_STATUSES.includes(status) || seen.has(status)) return error;
+			seen.add(status);
+		}
+		columns.push({
+			name: column.name.trim(),
+			statuses: column.statuses as TaskStatus[],
+		});
+	}
+	const missing = TASK_STATUSES.filter((s) => !seen.has(s));
+	if (missing.length > 0) {
+		return `columns must show every status; missing ${missing}`;
+	}
+	return columns;
+}
+
+// Rules as exposed by GET /workflow
+export function describeWorkflow() {
+	return {
+		statuses: TASK_STATUSES,
+		transitions: Object.entries(TRANSITIONS).map(([action, t]) => ({
+			action,
+			...t,
+		})),
+		errors: WORKFLOW_ERRORS,
+	};
+}